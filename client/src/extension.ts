@@ -13,6 +13,7 @@ import {
 	ServerOptions,
 	TransportKind
 } from 'vscode-languageclient/node';
+import { registerParametersView } from './parametersView';
 
 let client: LanguageClient;
 
@@ -54,6 +55,8 @@ export async function activate(context: ExtensionContext) {
 	// Start the client. This will also launch the server
 	client.start();
 
+	registerParametersView(context, client);
+
 	// Update vscode settings
 	await updateVScodeSettings();
 
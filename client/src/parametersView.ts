@@ -0,0 +1,182 @@
+import { Diagnostic, ExtensionContext, Range, TextDocument, ViewColumn, WebviewPanel, commands, languages, window, workspace } from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+
+// Mirrors ParamInfo in server/src/params.ts
+interface ParamInfo {
+	kind: string;
+	label: string | null;
+	defaultValue: number | string | null;
+	min?: number | string | null;
+	max?: number | string | null;
+	step?: number | string | null;
+	choices?: string[];
+	color?: string;
+	section: string | null;
+	range: { start: { line: number; character: number }; end: { line: number; character: number } };
+}
+
+interface ParamInventory {
+	uri: string;
+	params: ParamInfo[];
+}
+
+const PARAM_INVENTORY_REQUEST = 'afl/paramInventory';
+
+// Price fields offered by ParamField, by index
+const PRICE_FIELDS = ['Open', 'High', 'Low', 'Close', 'Volume', 'OpenInt', '(H+L)/2', '(H+L+C)/3'];
+
+let panel: WebviewPanel | undefined;
+let panelUri: string | undefined;
+let refreshTimeout: NodeJS.Timeout | undefined;
+
+/**
+ * Registers the `afl.showParameters` command, which previews the Parameters dialog
+ * AmiBroker builds from the Param*() calls of the active formula.
+ */
+export function registerParametersView(context: ExtensionContext, client: LanguageClient): void {
+	context.subscriptions.push(
+		commands.registerCommand('afl.showParameters', async () => {
+			const document = window.activeTextEditor?.document;
+			if (!document || document.languageId !== 'afl') {
+				window.showErrorMessage('Open an AFL formula to preview its parameters.');
+				return;
+			}
+			if (!panel) {
+				panel = window.createWebviewPanel('aflParameters', 'Parameters', ViewColumn.Beside, { enableScripts: false });
+				panel.onDidDispose(() => {
+					panel = undefined;
+					panelUri = undefined;
+				});
+			} else {
+				panel.reveal(ViewColumn.Beside, true);
+			}
+			panelUri = document.uri.toString();
+			await refresh(client, document);
+		}),
+		// Keep the preview in sync with the formula while it is edited
+		workspace.onDidChangeTextDocument((event) => {
+			if (!panel || event.document.uri.toString() !== panelUri) {
+				return;
+			}
+			clearTimeout(refreshTimeout);
+			refreshTimeout = setTimeout(() => refresh(client, event.document), 500);
+		})
+	);
+}
+
+async function refresh(client: LanguageClient, document: TextDocument): Promise<void> {
+	const inventory = await client.sendRequest<ParamInventory | null>(PARAM_INVENTORY_REQUEST, {
+		textDocument: { uri: document.uri.toString() },
+	});
+	if (!panel) {
+		return;
+	}
+	panel.title = `Parameters - ${workspace.asRelativePath(document.uri)}`;
+	// Diagnostics of the previous version may still be listed; they are refreshed on the next change
+	const problems = languages.getDiagnostics(document.uri).filter(diagnostic => diagnostic.code === 'param-values');
+	panel.webview.html = renderHtml(inventory?.params ?? [], problems, panel.webview.cspSource);
+}
+
+function escapeHtml(value: unknown): string {
+	return String(value ?? '').replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
+
+function renderControl(param: ParamInfo): string {
+	const value = param.defaultValue;
+	switch (param.kind) {
+		case 'Param': {
+			if (typeof value !== 'number' || typeof param.min !== 'number' || typeof param.max !== 'number') {
+				return `<input type="text" readonly value="${escapeHtml(value)}">`;
+			}
+			const step = typeof param.step === 'number' && param.step > 0 ? param.step : 'any';
+			return `<input type="range" min="${param.min}" max="${param.max}" step="${step}" value="${value}">`
+				+ `<input class="number" type="text" readonly value="${value}">`;
+		}
+		case 'ParamColor': {
+			const swatch = param.color ? `<span class="swatch" style="background:${escapeHtml(param.color)}"></span>` : '';
+			return `${swatch}<span>${escapeHtml(value)}</span>`;
+		}
+		case 'ParamToggle': {
+			const captions = param.choices ?? ['No', 'Yes'];
+			return captions.slice(0, 2)
+				.map((caption, index) => `<span class="toggle${index === value ? ' selected' : ''}">${escapeHtml(caption)}</span>`)
+				.join('');
+		}
+		case 'ParamList': {
+			if (!param.choices) {
+				return `<input type="text" readonly value="${escapeHtml(value)}">`;
+			}
+			const options = param.choices
+				.map((choice, index) => `<option${index === value ? ' selected' : ''}>${escapeHtml(choice)}</option>`)
+				.join('');
+			return `<select>${options}</select>`;
+		}
+		case 'ParamField': {
+			const options = PRICE_FIELDS
+				.map((field, index) => `<option${index === value ? ' selected' : ''}>${escapeHtml(field)}</option>`)
+				.join('');
+			return `<select>${options}</select>`;
+		}
+		default:
+			return `<input type="text" readonly value="${escapeHtml(value)}">`;
+	}
+}
+
+function renderRow(param: ParamInfo, problems: Diagnostic[]): string {
+	const range = new Range(param.range.start.line, param.range.start.character, param.range.end.line, param.range.end.character);
+	const messages = problems.filter(problem => range.intersection(problem.range)).map(problem => problem.message);
+	const warning = messages.length > 0 ? `<span class="warning" title="${escapeHtml(messages.join('\n'))}">&#9888;</span>` : '';
+	const label = param.label ?? '(computed label)';
+	return `<tr class="${messages.length > 0 ? 'problem' : ''}">`
+		+ `<td class="label">${warning}${escapeHtml(label)}</td>`
+		+ `<td class="control">${renderControl(param)}</td>`
+		+ `</tr>`;
+}
+
+function renderHtml(params: ParamInfo[], problems: Diagnostic[], cspSource: string): string {
+	// Parameters outside of any section come first, then one group per section in order of appearance
+	const groups = new Map<string | null, ParamInfo[]>([[null, []]]);
+	for (const param of params) {
+		const group = groups.get(param.section) ?? [];
+		group.push(param);
+		groups.set(param.section, group);
+	}
+
+	let body = '';
+	for (const [section, group] of groups) {
+		if (group.length === 0) {
+			continue;
+		}
+		const rows = group.map(param => renderRow(param, problems)).join('');
+		body += section === null
+			? `<table>${rows}</table>`
+			: `<details open><summary>${escapeHtml(section)}</summary><table>${rows}</table></details>`;
+	}
+	if (params.length === 0) {
+		body = '<p>This formula has no Param() calls.</p>';
+	}
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline';">
+<style>
+	body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); }
+	table { width: 100%; border-collapse: collapse; }
+	td { padding: 2px 6px; border-bottom: 1px solid var(--vscode-panel-border); }
+	td.label { width: 40%; }
+	summary { font-weight: bold; padding: 4px 0; cursor: pointer; }
+	details table { margin-left: 12px; width: calc(100% - 12px); }
+	input[type=range] { vertical-align: middle; width: 60%; }
+	input.number { width: 6em; margin-left: 6px; }
+	.swatch { display: inline-block; width: 14px; height: 14px; margin-right: 6px; vertical-align: middle; border: 1px solid var(--vscode-panel-border); }
+	.toggle { padding: 1px 8px; border: 1px solid var(--vscode-panel-border); }
+	.toggle.selected { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+	tr.problem td.label { color: var(--vscode-editorWarning-foreground); }
+	.warning { margin-right: 4px; }
+</style>
+</head>
+<body>${body}</body>
+</html>`;
+}
@@ -0,0 +1,84 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate, setTestContent } from './helper';
+
+suite('Should analyze each document version once', () => {
+	const docUri = getDocUri('analysis.afl');
+	const otherUri = getDocUri('analysisOther.afl');
+
+	// Edits are never saved; put the fixtures back as they are on disk
+	teardown(async () => {
+		for (const uri of [docUri, otherUri]) {
+			await vscode.window.showTextDocument(uri);
+			await vscode.commands.executeCommand('workbench.action.files.revert');
+		}
+	});
+
+	test('Returns the same results while the document is unchanged', async () => {
+		await activate(docUri);
+
+		const first = await getOutline(docUri);
+		const second = await getOutline(docUri);
+		assert.deepEqual(first.map(symbol => symbol.name), ['Fast', 'Slow']);
+		assert.deepEqual(second, first);
+
+		const hovers = await Promise.all([0, 1].map(() => vscode.commands.executeCommand(
+			'vscode.executeHoverProvider',
+			docUri,
+			new vscode.Position(2, 7)
+		) as Thenable<vscode.Hover[]>));
+		assert.deepEqual(hovers[1][0].contents, hovers[0][0].contents);
+	});
+
+	test('Reports the diagnostics of the latest edit only', async () => {
+		await activate(docUri);
+		const original = vscode.window.activeTextEditor!.document.getText();
+
+		// The second edit comes in before the first one is validated
+		await setTestContent('Fast = MA( C, 10;\n');
+		await setTestContent(original);
+		await sleep(1000);
+
+		const syntaxErrors = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'syntax-error');
+		assert.deepEqual(syntaxErrors, []);
+		assert.deepEqual((await getOutline(docUri)).map(symbol => symbol.name), ['Fast', 'Slow']);
+	});
+
+	test('Keeps the pending update of a document when another one is edited', async () => {
+		await activate(docUri);
+		await vscode.workspace.openTextDocument(otherUri);
+
+		const edit = new vscode.WorkspaceEdit();
+		edit.insert(docUri, new vscode.Position(0, 0), 'function Crossing( a, b ) {\n\treturn a > b;\n}\n');
+		await vscode.workspace.applyEdit(edit);
+		const otherEdit = new vscode.WorkspaceEdit();
+		otherEdit.insert(otherUri, new vscode.Position(0, 0), 'Length = 20;\n');
+		await vscode.workspace.applyEdit(otherEdit);
+		await sleep(1000);
+
+		const symbols = (await vscode.commands.executeCommand(
+			'vscode.executeWorkspaceSymbolProvider',
+			'Crossing'
+		)) as vscode.SymbolInformation[];
+		const match = symbols.find(symbol => symbol.name === 'Crossing');
+		assert.ok(match);
+		assert.equal(match.location.uri.fsPath, docUri.fsPath);
+	});
+});
+
+async function getOutline(docUri: vscode.Uri) {
+	return (await vscode.commands.executeCommand(
+		'vscode.executeDocumentSymbolProvider',
+		docUri
+	)) as vscode.DocumentSymbol[];
+}
+
+async function sleep(ms: number) {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
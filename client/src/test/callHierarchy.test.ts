@@ -0,0 +1,61 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should build the call hierarchy', () => {
+	const docUri = getDocUri('callHierarchy.afl');
+
+	async function prepare(position: vscode.Position): Promise<vscode.CallHierarchyItem> {
+		const items = (await vscode.commands.executeCommand(
+			'vscode.prepareCallHierarchy',
+			docUri,
+			position
+		)) as vscode.CallHierarchyItem[];
+		assert.equal(items.length, 1);
+		return items[0];
+	}
+
+	test('Lists the functions and formula code calling a function', async () => {
+		await activate(docUri);
+
+		const item = await prepare(new vscode.Position(0, 10));
+		assert.equal(item.name, 'Smooth');
+
+		const incoming = (await vscode.commands.executeCommand(
+			'vscode.provideIncomingCalls',
+			item
+		)) as vscode.CallHierarchyIncomingCall[];
+
+		const callers = incoming.map(call => `${call.from.name}:${call.fromRanges.length}`).sort();
+		assert.deepEqual(callers, ['Trend:2', 'callHierarchy.afl:1']);
+	});
+
+	test('Lists the user functions a function calls', async () => {
+		await activate(docUri);
+
+		const item = await prepare(new vscode.Position(3, 10));
+		const outgoing = (await vscode.commands.executeCommand(
+			'vscode.provideOutgoingCalls',
+			item
+		)) as vscode.CallHierarchyOutgoingCall[];
+
+		assert.deepEqual(outgoing.map(call => call.to.name), ['Smooth']);
+		assert.equal(outgoing[0].fromRanges.length, 2);
+	});
+
+	test('Reports recursive functions', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'recursive-call');
+
+		assert.equal(actualDiagnostics.length, 1);
+		assert.equal(actualDiagnostics[0].message, "'Countdown' calls itself");
+		assert.equal(actualDiagnostics[0].severity, vscode.DiagnosticSeverity.Information);
+	});
+});
@@ -0,0 +1,46 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should resolve names ignoring case', () => {
+	const docUri = getDocUri('casing.afl');
+
+	test('Goes to the declaration from a differently cased use', async () => {
+		await activate(docUri);
+
+		const locations = (await vscode.commands.executeCommand(
+			'vscode.executeDefinitionProvider',
+			docUri,
+			new vscode.Position(3, 9)
+		)) as vscode.Location[];
+
+		assert.equal(locations.length, 1);
+		assert.deepEqual(locations[0].range, new vscode.Range(0, 9, 0, 15));
+	});
+
+	test('Finds references in every casing', async () => {
+		await activate(docUri);
+
+		const locations = (await vscode.commands.executeCommand(
+			'vscode.executeReferenceProvider',
+			docUri,
+			new vscode.Position(1, 13)
+		)) as vscode.Location[];
+
+		assert.deepEqual(locations.map(location => location.range.start), [new vscode.Position(0, 17), new vscode.Position(1, 12)]);
+	});
+
+	test('Does not report the casing unless the rule is enabled', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'identifier-casing');
+
+		assert.equal(actualDiagnostics.length, 0);
+	});
+});
@@ -0,0 +1,62 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should check function spaces', () => {
+	const docUri = getDocUri('functionSpaces.afl');
+
+	test('Reports missing spaces inside call parentheses', async () => {
+		await activate(docUri);
+
+		// Other rules, such as unused-variable, also report on this file
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'function-spaces');
+
+		assert.equal(actualDiagnostics.length, 2);
+		assert.equal(actualDiagnostics[0].message, "Expected space after '('");
+		assert.deepEqual(actualDiagnostics[0].range, toRange(0, 7, 0, 17));
+		assert.equal(actualDiagnostics[0].code, 'function-spaces');
+		assert.equal(actualDiagnostics[1].message, "Expected space before ')'");
+		assert.deepEqual(actualDiagnostics[1].range, toRange(1, 7, 1, 17));
+		assert.equal(actualDiagnostics[1].severity, vscode.DiagnosticSeverity.Warning);
+	});
+
+	test('Offers a quick-fix for each spacing variant', async () => {
+		await activate(docUri);
+
+		const actions = (await vscode.commands.executeCommand(
+			'vscode.executeCodeActionProvider',
+			docUri,
+			toRange(0, 7, 0, 17),
+			vscode.CodeActionKind.QuickFix.value
+		)) as vscode.CodeAction[];
+
+		assert.equal(actions.length, 1);
+		assert.equal(actions[0].title, "Insert space after '('");
+	});
+
+	test('Fixes all spacing problems in the file', async () => {
+		await activate(docUri);
+
+		const actions = (await vscode.commands.executeCommand(
+			'vscode.executeCodeActionProvider',
+			docUri,
+			toRange(0, 0, 0, 0),
+			vscode.CodeActionKind.SourceFixAll.value
+		)) as vscode.CodeAction[];
+
+		assert.equal(actions.length, 1);
+		assert.equal(actions[0].edit?.get(docUri).length, 2);
+	});
+});
+
+function toRange(sLine: number, sChar: number, eLine: number, eChar: number) {
+	const start = new vscode.Position(sLine, sChar);
+	const end = new vscode.Position(eLine, eChar);
+	return new vscode.Range(start, end);
+}
@@ -0,0 +1,146 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { getDocPath } from './helper';
+
+const cliPath = path.resolve(__dirname, '../../../server/out/cli.js');
+
+suite('Should lint from the command line', () => {
+	let workDir: string;
+
+	// Each test works on a copy of the fixtures, since --fix writes the files back
+	setup(() => {
+		workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'afl-lint-'));
+		for (const file of fs.readdirSync(getDocPath('cli'))) {
+			fs.copyFileSync(path.join(getDocPath('cli'), file), path.join(workDir, file));
+		}
+	});
+
+	teardown(() => {
+		fs.rmSync(workDir, { recursive: true, force: true });
+	});
+
+	test('Exits with 0 when there is no problem', () => {
+		const result = runCli(['clean.afl']);
+
+		assert.equal(result.status, 0);
+		assert.equal(result.stdout, 'No problems in 1 file\n');
+	});
+
+	test('Exits with 1 when an error is reported', () => {
+		const result = runCli(['broken.afl']);
+
+		assert.equal(result.status, 1);
+		assert.ok(result.stdout.startsWith('broken.afl\n  1:'));
+		assert.ok(result.stdout.includes('syntax-error'));
+	});
+
+	test('Lints every file of the current folder by default', () => {
+		const result = runCli([]);
+
+		assert.equal(result.status, 1);
+		assert.ok(result.stdout.endsWith('2 problems (1 error, 1 warning) in 3 files\n'));
+	});
+
+	test('Exits with 2 on invalid arguments', () => {
+		const format = runCli(['--format', 'xml']);
+		assert.equal(format.status, 2);
+		assert.equal(format.stderr, 'afl-lint: Unknown format \'xml\', expected human, json or sarif\n');
+
+		const option = runCli(['--bogus']);
+		assert.equal(option.status, 2);
+		assert.equal(option.stderr, 'afl-lint: Unknown option \'--bogus\'\n');
+
+		const missing = runCli(['--config']);
+		assert.equal(missing.status, 2);
+		assert.equal(missing.stderr, 'afl-lint: Missing value for --config\n');
+	});
+
+	test('Prints the usage for --help', () => {
+		const result = runCli(['--help']);
+
+		assert.equal(result.status, 0);
+		assert.ok(result.stdout.startsWith('Usage: afl-lint'));
+	});
+
+	test('Rejects unknown rules and severities in the config', () => {
+		writeConfig('unknown.json', { rules: { 'no-such-rule': 'off' } });
+		const unknown = runCli(['--config', 'unknown.json', 'clean.afl']);
+		assert.equal(unknown.status, 2);
+		assert.equal(unknown.stderr, 'afl-lint: Unknown rule \'no-such-rule\' in \'unknown.json\'\n');
+
+		writeConfig('severity.json', { rules: { 'unused-variable': 'loud' } });
+		const severity = runCli(['--config', 'severity.json', 'clean.afl']);
+		assert.equal(severity.status, 2);
+		assert.equal(severity.stderr, 'afl-lint: Invalid severity \'loud\' for rule \'unused-variable\' in \'severity.json\'\n');
+	});
+
+	test('Reads rule severities from the default config file', () => {
+		assert.equal(runCli(['spaces.afl']).status, 0);
+
+		writeConfig('.afl-lint.json', { rules: { 'function-spaces': 'error' } });
+		const result = runCli(['spaces.afl']);
+		assert.equal(result.status, 1);
+		assert.ok(result.stdout.includes('1:8  error    Expected space after \'(\'  function-spaces'));
+	});
+
+	test('Prints JSON', () => {
+		const result = runCli(['--format', 'json', 'broken.afl']);
+
+		assert.equal(result.status, 1);
+		const output = JSON.parse(result.stdout);
+		assert.equal(output.length, 1);
+		assert.equal(output[0].path, 'broken.afl');
+		assert.deepEqual(Object.keys(output[0].diagnostics[0]), ['rule', 'severity', 'message', 'line', 'column', 'endLine', 'endColumn']);
+		assert.equal(output[0].diagnostics[0].rule, 'syntax-error');
+		assert.equal(output[0].diagnostics[0].severity, 'error');
+		assert.equal(output[0].diagnostics[0].line, 1);
+	});
+
+	test('Prints SARIF', () => {
+		const result = runCli(['--format', 'sarif', 'broken.afl']);
+
+		assert.equal(result.status, 1);
+		const output = JSON.parse(result.stdout);
+		assert.equal(output.version, '2.1.0');
+		assert.equal(output.runs[0].tool.driver.name, 'afl-lint');
+		assert.ok(output.runs[0].tool.driver.rules.some((rule: { id: string }) => rule.id === 'function-spaces'));
+
+		const [problem] = output.runs[0].results;
+		assert.equal(problem.ruleId, 'syntax-error');
+		assert.equal(problem.level, 'error');
+		assert.equal(problem.locations[0].physicalLocation.artifactLocation.uri, 'broken.afl');
+		assert.equal(problem.locations[0].physicalLocation.region.startLine, 1);
+	});
+
+	test('Writes the fixes back with --fix', () => {
+		writeConfig('.afl-lint.json', { rules: { 'function-spaces': 'error' } });
+		const result = runCli(['--fix', 'spaces.afl']);
+
+		assert.equal(result.status, 0);
+		assert.equal(
+			fs.readFileSync(path.join(workDir, 'spaces.afl'), 'utf8'),
+			'Fast = MA( C, 10 );\nPlot( Fast, "Fast", colorRed );\n'
+		);
+	});
+
+	function runCli(args: string[]) {
+		// The test host is Electron, which runs the script as plain Node with this variable
+		return spawnSync(process.execPath, [cliPath, ...args], {
+			cwd: workDir,
+			env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+			encoding: 'utf8',
+		});
+	}
+
+	function writeConfig(name: string, config: object) {
+		fs.writeFileSync(path.join(workDir, name), JSON.stringify(config));
+	}
+});
@@ -7,37 +7,92 @@ import * as vscode from 'vscode';
 import * as assert from 'assert';
 import { getDocUri, activate } from './helper';
 
-suite('Should do completion', () => {
-	const docUri = getDocUri('completion.txt');
+suite('Should complete AmiBroker built-ins', () => {
+	const docUri = getDocUri('builtins.afl');
 
-	test('Completes JS/TS in txt file', async () => {
-		await testCompletion(docUri, new vscode.Position(0, 0), {
-			items: [
-				{ label: 'JavaScript', kind: vscode.CompletionItemKind.Text },
-				{ label: 'TypeScript', kind: vscode.CompletionItemKind.Text }
-			]
-		});
+	test('Completes built-in functions with their signature', async () => {
+		await activate(docUri);
+
+		const actualCompletionList = (await vscode.commands.executeCommand(
+			'vscode.executeCompletionItemProvider',
+			docUri,
+			new vscode.Position(1, 7)
+		)) as vscode.CompletionList;
+
+		const ema = actualCompletionList.items.find(item => item.label === 'EMA');
+		assert.ok(ema);
+		assert.equal(ema.kind, vscode.CompletionItemKind.Function);
+		assert.equal(ema.detail, 'EMA( ARRAY, periods ): array');
+	});
+
+	test('Completes snippets for common constructs', async () => {
+		await activate(docUri);
+
+		const actualCompletionList = (await vscode.commands.executeCommand(
+			'vscode.executeCompletionItemProvider',
+			docUri,
+			new vscode.Position(1, 7)
+		)) as vscode.CompletionList;
+
+		const system = actualCompletionList.items.find(item => item.label === 'system');
+		assert.ok(system);
+		assert.equal(system.kind, vscode.CompletionItemKind.Snippet);
+		assert.ok(system.insertText instanceof vscode.SnippetString);
+		assert.ok(system.insertText.value.includes('ApplyStop( stopTypeLoss, stopModePercent, ${6:5} );'));
+	});
+
+	test('Shows signature help for the active argument', async () => {
+		await activate(docUri);
+
+		const help = (await vscode.commands.executeCommand(
+			'vscode.executeSignatureHelpProvider',
+			docUri,
+			new vscode.Position(0, 14)
+		)) as vscode.SignatureHelp;
+
+		assert.equal(help.signatures[0].label, 'MA( ARRAY, periods ): array');
+		assert.equal(help.activeParameter, 1);
 	});
 });
 
-async function testCompletion(
-	docUri: vscode.Uri,
-	position: vscode.Position,
-	expectedCompletionList: vscode.CompletionList
-) {
-	await activate(docUri);
-
-	// Executing the command `vscode.executeCompletionItemProvider` to simulate triggering completion
-	const actualCompletionList = (await vscode.commands.executeCommand(
-		'vscode.executeCompletionItemProvider',
-		docUri,
-		position
-	)) as vscode.CompletionList;
-
-	assert.ok(actualCompletionList.items.length >= 2);
-	expectedCompletionList.items.forEach((expectedItem, i) => {
-		const actualItem = actualCompletionList.items[i];
-		assert.equal(actualItem.label, expectedItem.label);
-		assert.equal(actualItem.kind, expectedItem.kind);
-	});
-}
+suite('Should complete from the cursor context', () => {
+	const docUri = getDocUri('completionContext.afl');
+
+	async function complete(position: vscode.Position): Promise<vscode.CompletionItem[]> {
+		await activate(docUri);
+		const list = (await vscode.commands.executeCommand(
+			'vscode.executeCompletionItemProvider',
+			docUri,
+			position
+		)) as vscode.CompletionList;
+		return list.items;
+	}
+
+	test('Completes only color constants in color arguments', async () => {
+		const items = await complete(new vscode.Position(2, 22));
+		assert.ok(items.some(item => item.label === 'colorRed'));
+		assert.ok(items.every(item => String(item.label).startsWith('color')));
+	});
+
+	test('Completes only style constants in style arguments', async () => {
+		const items = await complete(new vscode.Position(2, 32));
+		assert.ok(items.some(item => item.label === 'styleLine'));
+		assert.ok(items.every(item => String(item.label).startsWith('style')));
+	});
+
+	test('Completes SetOption names', async () => {
+		const items = await complete(new vscode.Position(1, 15));
+		assert.ok(items.some(item => item.label === 'MaxOpenPositions'));
+		assert.ok(!items.some(item => item.label === 'MA'));
+	});
+
+	test('Completes ParamList choices', async () => {
+		const items = await complete(new vscode.Position(4, 14));
+		assert.deepEqual(items.map(item => item.label), ['Long only', 'Short only', 'Both']);
+	});
+
+	test('Completes nothing in comments', async () => {
+		const items = await complete(new vscode.Position(3, 7));
+		assert.equal(items.length, 0);
+	});
+});
@@ -0,0 +1,56 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should evaluate constant expressions', () => {
+	const docUri = getDocUri('constants.afl');
+
+	test('Shows the computed value on hover', async () => {
+		await activate(docUri);
+
+		const hovers = (await vscode.commands.executeCommand(
+			'vscode.executeHoverProvider',
+			docUri,
+			new vscode.Position(1, 1)
+		)) as vscode.Hover[];
+
+		const contents = hovers[0].contents[0] as vscode.MarkdownString;
+		assert.ok(contents.value.includes('Threshold: number = 28 (Param default)'));
+	});
+
+	test('Reports invalid constants', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'invalid-constant')
+			.map(diagnostic => ({ range: diagnostic.range, message: diagnostic.message }));
+
+		assert.deepEqual(actualDiagnostics, [
+			{ range: new vscode.Range(2, 14, 2, 16), message: 'The period of MA() must be at least 1, but it is -5' },
+			{ range: new vscode.Range(3, 12, 3, 13), message: 'Division by zero: the divisor is always 0' },
+			{ range: new vscode.Range(4, 15, 4, 18), message: 'The offset of Ref() must be a whole number of bars, but it is 0.5' },
+		]);
+	});
+});
+
+suite('Should use AmiBroker palette values', () => {
+	const docUri = getDocUri('palette.afl');
+
+	test('Shows the palette number of a color constant', async () => {
+		await activate(docUri);
+
+		const hovers = (await vscode.commands.executeCommand(
+			'vscode.executeHoverProvider',
+			docUri,
+			new vscode.Position(0, 1)
+		)) as vscode.Hover[];
+
+		const contents = hovers[0].contents[0] as vscode.MarkdownString;
+		assert.ok(contents.value.includes('Col: number = 32'));
+	});
+});
@@ -0,0 +1,50 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should go to the definition in scope', () => {
+	const docUri = getDocUri('scopes.afl');
+
+	test('Goes to the local declaration inside a function', async () => {
+		await testDefinition(docUri, new vscode.Position(6, 20), new vscode.Position(4, 7));
+	});
+
+	test('Goes to the document variable declared global in a function', async () => {
+		await testDefinition(docUri, new vscode.Position(11, 9), new vscode.Position(0, 7));
+	});
+
+	test('Goes to the first assignment of a variable, not a later one', async () => {
+		await testDefinition(docUri, new vscode.Position(15, 7), new vscode.Position(13, 0));
+	});
+
+	test('Lists assigned variables once in the outline', async () => {
+		await activate(docUri);
+
+		const symbols = (await vscode.commands.executeCommand(
+			'vscode.executeDocumentSymbolProvider',
+			docUri
+		)) as vscode.DocumentSymbol[];
+
+		assert.deepEqual(symbols.map(symbol => symbol.name), ['Period', 'Smooth', 'Signal', 'Fast']);
+		assert.deepEqual(symbols[3].range.start, new vscode.Position(13, 0));
+	});
+});
+
+async function testDefinition(docUri: vscode.Uri, position: vscode.Position, expected: vscode.Position) {
+	await activate(docUri);
+
+	const locations = (await vscode.commands.executeCommand(
+		'vscode.executeDefinitionProvider',
+		docUri,
+		position
+	)) as vscode.Location[];
+
+	assert.equal(locations.length, 1);
+	assert.equal(locations[0].uri.fsPath, docUri.fsPath);
+	assert.deepEqual(locations[0].range.start, expected);
+}
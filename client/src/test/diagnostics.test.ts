@@ -7,15 +7,125 @@ import * as vscode from 'vscode';
 import * as assert from 'assert';
 import { getDocUri, activate } from './helper';
 
-suite('Should get diagnostics', () => {
-	const docUri = getDocUri('diagnostics.txt');
-
-	test('Diagnoses uppercase texts', async () => {
-		await testDiagnostics(docUri, [
-			{ message: 'ANY is all uppercase.', range: toRange(0, 0, 0, 3), severity: vscode.DiagnosticSeverity.Warning, source: 'ex' },
-			{ message: 'ANY is all uppercase.', range: toRange(0, 14, 0, 17), severity: vscode.DiagnosticSeverity.Warning, source: 'ex' },
-			{ message: 'OS is all uppercase.', range: toRange(0, 18, 0, 20), severity: vscode.DiagnosticSeverity.Warning, source: 'ex' }
+suite('Should report syntax errors', () => {
+	const docUri = getDocUri('syntaxError.afl');
+
+	test('Reports the parse error at its position', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'syntax-error');
+
+		assert.equal(actualDiagnostics.length, 1);
+		assert.equal(actualDiagnostics[0].severity, vscode.DiagnosticSeverity.Error);
+		assert.equal(actualDiagnostics[0].range.start.line, 1);
+	});
+});
+
+suite('Should check Param() calls', () => {
+	const docUri = getDocUri('params.afl');
+
+	test('Reports defaults outside their range and duplicate labels', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'param-values');
+
+		assert.equal(actualDiagnostics.length, 2);
+		assert.equal(actualDiagnostics[0].message, "Default 150 of parameter 'Periods' is outside its range 2..100");
+		assert.equal(actualDiagnostics[1].range.start.line, 2);
+		assert.match(actualDiagnostics[1].message, /^Duplicate parameter label 'Periods' in section 'Moving Average'/);
+	});
+});
+
+suite('Should check backtest signals', () => {
+	const docUri = getDocUri('backtest.afl');
+
+	test('Reports missing exits, PositionScore without a rotational mode and signals set in functions', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'backtest-signals')
+			.sort((a, b) => a.range.start.line - b.range.start.line);
+
+		assert.equal(actualDiagnostics.length, 3);
+		assert.match(actualDiagnostics[0].message, /^'Sell' assigned inside function 'Signals'/);
+		assert.match(actualDiagnostics[1].message, /^'Buy' is assigned but 'Sell' is never set/);
+		assert.match(actualDiagnostics[2].message, /^'PositionScore' is assigned/);
+	});
+});
+
+suite('Should detect future leaks', () => {
+	const docUri = getDocUri('lookahead.afl');
+
+	test('Reports signals computed from look-ahead functions with the assignment chain', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'future-leak');
+
+		assert.equal(actualDiagnostics.length, 1);
+		assert.equal(actualDiagnostics[0].range.start.line, 2);
+		assert.deepEqual(
+			actualDiagnostics[0].relatedInformation?.map(info => info.location.range.start.line),
+			[0, 0, 1]
+		);
+	});
+});
+
+suite('Should check variable usage', () => {
+	const docUri = getDocUri('variables.afl');
+	const variableRules = ['undefined-variable', 'unused-parameter', 'shadowed-builtin', 'misspelled-builtin'];
+
+	test('Reports reads before assignment, unused parameters, shadowed and misspelled built-ins', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => variableRules.includes(diagnostic.code as string))
+			.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+
+		assert.deepEqual(actualDiagnostics.map(diagnostic => diagnostic.code), [
+			'shadowed-builtin',
+			'unused-parameter',
+			'unused-parameter',
+			'misspelled-builtin',
+			'undefined-variable',
 		]);
+		assert.equal(actualDiagnostics[0].message, "Function 'MA' shadows the AmiBroker built-in MA()");
+		assert.equal(actualDiagnostics[2].message, "Parameter 'b' of 'Spread' is never used");
+		assert.equal(actualDiagnostics[4].message, "'Periods' is read before it is first assigned on line 9");
+	});
+
+	test('Offers the closest built-in name as a quick-fix', async () => {
+		await activate(docUri);
+
+		const actions = (await vscode.commands.executeCommand(
+			'vscode.executeCodeActionProvider',
+			docUri,
+			toRange(7, 8, 7, 12),
+			vscode.CodeActionKind.QuickFix.value
+		)) as vscode.CodeAction[];
+
+		assert.ok(actions.some(action => action.title === "Change to 'Cross'"));
+	});
+});
+
+suite('Should report unused variables', () => {
+	const docUri = getDocUri('unusedVariables.afl');
+
+	test('Reports variables that are assigned but never read', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'unused-variable')
+			.sort((a, b) => a.range.start.line - b.range.start.line);
+
+		assert.deepEqual(actualDiagnostics.map(diagnostic => diagnostic.message), [
+			"'Slow' is assigned but never read",
+			"'Doubled' is assigned but never read",
+		]);
+		assert.deepEqual(actualDiagnostics[1].range, toRange(4, 1, 4, 8));
+		assert.deepEqual(actualDiagnostics[0].tags, [vscode.DiagnosticTag.Unnecessary]);
 	});
 });
 
@@ -24,18 +134,3 @@ function toRange(sLine: number, sChar: number, eLine: number, eChar: number) {
 	const end = new vscode.Position(eLine, eChar);
 	return new vscode.Range(start, end);
 }
-
-async function testDiagnostics(docUri: vscode.Uri, expectedDiagnostics: vscode.Diagnostic[]) {
-	await activate(docUri);
-
-	const actualDiagnostics = vscode.languages.getDiagnostics(docUri);
-
-	assert.equal(actualDiagnostics.length, expectedDiagnostics.length);
-
-	expectedDiagnostics.forEach((expectedDiagnostic, i) => {
-		const actualDiagnostic = actualDiagnostics[i];
-		assert.equal(actualDiagnostic.message, expectedDiagnostic.message);
-		assert.deepEqual(actualDiagnostic.range, expectedDiagnostic.range);
-		assert.equal(actualDiagnostic.severity, expectedDiagnostic.severity);
-	});
-}
\ No newline at end of file
@@ -0,0 +1,43 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should format AFL documents', () => {
+	const docUri = getDocUri('formatting.afl');
+
+	test('Formats spacing and indentation', async () => {
+		await activate(docUri);
+
+		const edits = (await vscode.commands.executeCommand(
+			'vscode.executeFormatDocumentProvider',
+			docUri,
+			{ tabSize: 4, insertSpaces: false }
+		)) as vscode.TextEdit[];
+
+		assert.equal(edits.length, 1);
+		assert.deepEqual(edits[0].range, new vscode.Range(0, 0, 4, 0));
+		assert.equal(
+			edits[0].newText,
+			'function Smooth( x, n ) {\n\treturn MA( x, n );\n}\nif ( C > O ) Buy = 1;\n'
+		);
+	});
+
+	test('Closes a block after the end of a multi-line comment', async () => {
+		const commentsUri = getDocUri('formattingComments.afl');
+		await activate(commentsUri);
+
+		const edits = (await vscode.commands.executeCommand(
+			'vscode.executeFormatDocumentProvider',
+			commentsUri,
+			{ tabSize: 4, insertSpaces: false }
+		)) as vscode.TextEdit[];
+
+		assert.equal(edits.length, 1);
+		assert.equal(edits[0].newText, 'if ( C > O ) {\n\t/* a comment\nspanning lines */ }\nx = 1;\n');
+	});
+});
@@ -0,0 +1,84 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should resolve included files', () => {
+	const docUri = getDocUri('includes/main.afl');
+	const helpersUri = getDocUri('includes/shared/helpers.afl');
+
+	test('Goes to a function defined in an included file', async () => {
+		await activate(docUri);
+
+		const locations = (await vscode.commands.executeCommand(
+			'vscode.executeDefinitionProvider',
+			docUri,
+			new vscode.Position(3, 12)
+		)) as vscode.Location[];
+
+		assert.equal(locations.length, 1);
+		assert.equal(locations[0].uri.fsPath, helpersUri.fsPath);
+		assert.deepEqual(locations[0].range, new vscode.Range(1, 9, 1, 15));
+	});
+
+	test('Finds references in the including and the included file', async () => {
+		await activate(docUri);
+
+		const locations = (await vscode.commands.executeCommand(
+			'vscode.executeReferenceProvider',
+			docUri,
+			new vscode.Position(3, 23)
+		)) as vscode.Location[];
+
+		assert.deepEqual(
+			locations.map(location => [location.uri.fsPath, location.range.start.line]),
+			[[docUri.fsPath, 3], [helpersUri.fsPath, 0]]
+		);
+	});
+
+	test('Completes functions and variables of included files', async () => {
+		await activate(docUri);
+
+		const actualCompletionList = (await vscode.commands.executeCommand(
+			'vscode.executeCompletionItemProvider',
+			docUri,
+			new vscode.Position(4, 0)
+		)) as vscode.CompletionList;
+
+		const smooth = actualCompletionList.items.find(item => item.label === 'Smooth');
+		assert.ok(smooth);
+		assert.equal(smooth.kind, vscode.CompletionItemKind.Function);
+		assert.ok(actualCompletionList.items.some(item => item.label === 'Length'));
+	});
+
+	test('Reports unresolved and circular includes', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'include-resolution')
+			.map(diagnostic => ({ range: diagnostic.range, message: diagnostic.message }));
+
+		assert.deepEqual(actualDiagnostics, [
+			{ range: new vscode.Range(1, 15, 1, 26), message: 'Cannot resolve include \'missing.afl\'' },
+			{ range: new vscode.Range(2, 10, 2, 20), message: 'Circular include: cycleA.afl -> cycleB.afl -> cycleA.afl' },
+		]);
+	});
+
+	test('Links each resolved include path to its file', async () => {
+		await activate(docUri);
+
+		const links = (await vscode.commands.executeCommand(
+			'vscode.executeLinkProvider',
+			docUri
+		)) as vscode.DocumentLink[];
+
+		assert.deepEqual(
+			links.map(link => [link.range.start.line, link.target?.fsPath]),
+			[[0, helpersUri.fsPath], [2, getDocUri('includes/cycleA.afl').fsPath]]
+		);
+	});
+});
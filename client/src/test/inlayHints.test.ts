@@ -0,0 +1,31 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should show inlay hints', () => {
+	const docUri = getDocUri('inlayHints.afl');
+
+	test('Shows parameter names before the arguments of built-in and user functions', async () => {
+		await activate(docUri);
+
+		const hints = (await vscode.commands.executeCommand(
+			'vscode.executeInlayHintProvider',
+			docUri,
+			new vscode.Range(0, 0, 6, 0)
+		)) as vscode.InlayHint[];
+
+		const labelsOnLine = (line: number) => hints
+			.filter(hint => hint.position.line === line)
+			.map(hint => hint.label);
+
+		assert.deepEqual(labelsOnLine(3), ['type:', 'mode:', 'amount:', 'exitatstop:', 'volatile:', 'ReEntryDelay:']);
+		assert.deepEqual(labelsOnLine(4), ['value:', 'factor:']);
+		// The first argument is a variable named like the parameter
+		assert.deepEqual(labelsOnLine(5), ['name:', 'color:', 'style:']);
+	});
+});
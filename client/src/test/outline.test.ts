@@ -0,0 +1,37 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should show sections in the outline', () => {
+	const docUri = getDocUri('sections.afl');
+
+	test('Nests statements under their section', async () => {
+		await activate(docUri);
+
+		const symbols = (await vscode.commands.executeCommand(
+			'vscode.executeDocumentSymbolProvider',
+			docUri
+		)) as vscode.DocumentSymbol[];
+
+		assert.deepEqual(symbols.map(symbol => symbol.name), ['Moving averages', 'Signals']);
+		assert.equal(symbols[0].kind, vscode.SymbolKind.Namespace);
+		assert.deepEqual(symbols[0].children.map(symbol => symbol.name), ['Fast', 'Slow']);
+		assert.deepEqual(symbols[1].children.map(symbol => symbol.name), ['Buy', 'Sell']);
+	});
+
+	test('Folds each section', async () => {
+		await activate(docUri);
+
+		const ranges = (await vscode.commands.executeCommand(
+			'vscode.executeFoldingRangeProvider',
+			docUri
+		)) as vscode.FoldingRange[];
+
+		assert.deepEqual(ranges.map(range => [range.start, range.end]), [[0, 3], [5, 8]]);
+	});
+});
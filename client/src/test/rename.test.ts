@@ -0,0 +1,49 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should find references and rename', () => {
+	const docUri = getDocUri('rename.afl');
+
+	test('Finds the global, not the parameter of the same name', async () => {
+		await activate(docUri);
+
+		const locations = (await vscode.commands.executeCommand(
+			'vscode.executeReferenceProvider',
+			docUri,
+			new vscode.Position(5, 16)
+		)) as vscode.Location[];
+
+		assert.deepEqual(locations.map(location => location.range.start.line), [0, 5]);
+	});
+
+	test('Renames a function parameter within its function only', async () => {
+		await activate(docUri);
+
+		const edit = (await vscode.commands.executeCommand(
+			'vscode.executeDocumentRenameProvider',
+			docUri,
+			new vscode.Position(1, 18),
+			'Length'
+		)) as vscode.WorkspaceEdit;
+
+		const edits = edit.get(docUri);
+		assert.deepEqual(edits.map(e => e.range.start.line), [1, 3]);
+	});
+
+	test('Refuses to rename reserved variables', async () => {
+		await activate(docUri);
+
+		await assert.rejects(async () => vscode.commands.executeCommand(
+			'vscode.executeDocumentRenameProvider',
+			docUri,
+			new vscode.Position(6, 1),
+			'Entry'
+		));
+	});
+});
@@ -0,0 +1,58 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should provide semantic tokens', () => {
+	const docUri = getDocUri('semanticTokens.afl');
+
+	test('Classifies functions, parameters, reserved variables and constants', async () => {
+		await activate(docUri);
+
+		const legend = (await vscode.commands.executeCommand(
+			'vscode.provideDocumentSemanticTokensLegend',
+			docUri
+		)) as vscode.SemanticTokensLegend;
+		const tokens = (await vscode.commands.executeCommand(
+			'vscode.provideDocumentSemanticTokens',
+			docUri
+		)) as vscode.SemanticTokens;
+
+		// Decode the relative positions into "line:character type" entries
+		const decoded: string[] = [];
+		let line = 0;
+		let character = 0;
+		for (let i = 0; i < tokens.data.length; i += 5) {
+			line += tokens.data[i];
+			character = tokens.data[i] === 0 ? character + tokens.data[i + 1] : tokens.data[i + 1];
+			decoded.push(`${line}:${character} ${legend.tokenTypes[tokens.data[i + 3]]}`);
+		}
+
+		assert.ok(decoded.includes('0:9 function'));
+		assert.ok(decoded.includes('0:17 parameter'));
+		assert.ok(decoded.includes('1:8 function'));
+		assert.ok(decoded.includes('3:0 variable'));
+		assert.ok(decoded.includes('4:18 enumMember'));
+		assert.ok(decoded.includes('4:28 enumMember'));
+	});
+
+	test('Returns the same tokens for repeated full requests', async () => {
+		await activate(docUri);
+
+		const first = (await vscode.commands.executeCommand(
+			'vscode.provideDocumentSemanticTokens',
+			docUri
+		)) as vscode.SemanticTokens;
+		const second = (await vscode.commands.executeCommand(
+			'vscode.provideDocumentSemanticTokens',
+			docUri
+		)) as vscode.SemanticTokens;
+
+		assert.ok(first.data.length > 0);
+		assert.deepEqual(Array.from(second.data), Array.from(first.data));
+	});
+});
@@ -0,0 +1,49 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should infer array and scalar types', () => {
+	const docUri = getDocUri('types.afl');
+
+	test('Shows the inferred type on hover', async () => {
+		await activate(docUri);
+
+		const hovers = (await vscode.commands.executeCommand(
+			'vscode.executeHoverProvider',
+			docUri,
+			new vscode.Position(0, 1)
+		)) as vscode.Hover[];
+
+		const contents = hovers[0].contents[0] as vscode.MarkdownString;
+		assert.ok(contents.value.includes('(variable, global) Fast: array'));
+	});
+
+	test('Reports an array used as an if condition', async () => {
+		await activate(docUri);
+
+		const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+			.filter(diagnostic => diagnostic.code === 'type-mismatch');
+
+		assert.equal(actualDiagnostics.length, 1);
+		assert.deepEqual(actualDiagnostics[0].range, new vscode.Range(2, 5, 2, 17));
+	});
+
+	test('Offers to convert the if statement to IIf()', async () => {
+		await activate(docUri);
+
+		const actions = (await vscode.commands.executeCommand(
+			'vscode.executeCodeActionProvider',
+			docUri,
+			new vscode.Range(2, 5, 2, 17),
+			vscode.CodeActionKind.QuickFix.value
+		)) as vscode.CodeAction[];
+
+		const convert = actions.find(action => action.title === 'Convert to IIf()');
+		assert.equal(convert?.edit?.get(docUri)[0].newText, 'Col = IIf( Fast > Level, colorGreen, colorRed );');
+	});
+});
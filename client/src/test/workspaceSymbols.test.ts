@@ -0,0 +1,27 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should search workspace symbols', () => {
+	const docUri = getDocUri('builtins.afl');
+
+	test('Finds functions in files that are not open', async () => {
+		await activate(docUri);
+
+		const symbols = (await vscode.commands.executeCommand(
+			'vscode.executeWorkspaceSymbolProvider',
+			'CustomMACD'
+		)) as vscode.SymbolInformation[];
+
+		const match = symbols.find(symbol => symbol.name === 'CustomMACD');
+		assert.ok(match);
+		assert.equal(match.kind, vscode.SymbolKind.Function);
+		assert.equal(match.containerName, 'Indicators');
+		assert.equal(match.location.uri.fsPath, getDocUri('library/indicators.afl').fsPath);
+	});
+});
@@ -0,0 +1,100 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ConstantEvaluation, evaluateConstants } from './constants';
+import { IncludeGraph, TextReader, resolveIncludeGraph } from './includes';
+import { DocumentSymbolTable, analyzeText, buildSymbolTable, getDocumentTable, setDocumentIncludes } from './symbolTable';
+import { TypeInference, inferTypes } from './types';
+import { ParseResult, parseText } from './util';
+
+export interface DocumentAnalysis extends ParseResult {
+	uri: string;
+	version: number;
+	text: string;
+	symbols: DocumentSymbolTable;
+	// Inferred on first use, see getTypes
+	types?: TypeInference | null;
+	// Folded on first use, see getConstants
+	constants?: ConstantEvaluation | null;
+	// Resolved on first use against `includeRoot`, see getIncludes
+	includes?: { includeRoot: string; graph: IncludeGraph };
+}
+
+// Latest analysis of each open document
+const analyses = new Map<string, DocumentAnalysis>();
+
+/**
+ * Returns the parsed AST and symbol table of a document, computing them once per version.
+ * Symbols, diagnostics, the outline, hover and the other features share this result, and
+ * the symbol table becomes the one used for lookups in the document.
+ */
+export function getAnalysis(document: TextDocument): DocumentAnalysis {
+	const cached = analyses.get(document.uri);
+	if (cached && cached.version === document.version) {
+		return cached;
+	}
+	const text = document.getText();
+	const { ast, errors } = parseText(text);
+	const analysis: DocumentAnalysis = {
+		uri: document.uri,
+		version: document.version,
+		text,
+		ast,
+		errors,
+		symbols: analyzeText(text, document.uri, ast),
+	};
+	analyses.set(document.uri, analysis);
+	return analysis;
+}
+
+/**
+ * Analyzes a text that is not an open document, e.g. a file linted from the command line.
+ * Unlike getAnalysis, the symbol table is not used for lookups and nothing is cached.
+ */
+export function createAnalysis(uri: string, text: string): DocumentAnalysis {
+	const { ast, errors } = parseText(text);
+	return { uri, version: 0, text, ast, errors, symbols: buildSymbolTable(ast, text, uri) };
+}
+
+export function getTypes(analysis: DocumentAnalysis): TypeInference | null {
+	if (analysis.types === undefined) {
+		analysis.types = analysis.ast ? inferTypes(analysis.ast) : null;
+	}
+	return analysis.types;
+}
+
+export function getConstants(analysis: DocumentAnalysis): ConstantEvaluation | null {
+	if (analysis.constants === undefined) {
+		analysis.constants = analysis.ast ? evaluateConstants(analysis.ast) : null;
+	}
+	return analysis.constants;
+}
+
+/**
+ * Returns the include tree of a document, resolving it once per version. Included files are
+ * analyzed the first time they are needed, so that the names they declare resolve in the
+ * document and its rules.
+ */
+export function getIncludes(analysis: DocumentAnalysis, includeRoot: string, readText: TextReader): IncludeGraph {
+	if (analysis.includes?.includeRoot === includeRoot) {
+		return analysis.includes.graph;
+	}
+	const graph = resolveIncludeGraph(analysis.uri, analysis.text, includeRoot, readText);
+	for (const includedUri of graph.documents) {
+		if (!getDocumentTable(includedUri)) {
+			analyzeText(readText(includedUri) ?? '', includedUri);
+		}
+	}
+	setDocumentIncludes(analysis.uri, graph.documents);
+	analysis.includes = { includeRoot, graph };
+	return graph;
+}
+
+// Makes every document resolve its includes again, e.g. after an included file changed on disk
+export function invalidateIncludes(): void {
+	for (const analysis of analyses.values()) {
+		analysis.includes = undefined;
+	}
+}
+
+export function evictAnalysis(uri: string): void {
+	analyses.delete(uri);
+}
@@ -0,0 +1,529 @@
+import { MarkupContent, MarkupKind, ParameterInformation, SignatureInformation } from 'vscode-languageserver';
+
+export type AflValueType = 'array' | 'number' | 'string' | 'boolean' | 'color' | 'style' | 'shape' | 'any';
+export type AflReturnType = 'array' | 'number' | 'string' | 'void' | 'any';
+
+export interface BuiltinParameter {
+	name: string;
+	type: AflValueType;
+	description?: string;
+	// Default value as written in the AmiBroker manual, e.g. "colorDefault"
+	defaultValue?: string;
+}
+
+export interface BuiltinFunction {
+	name: string;
+	params: BuiltinParameter[];
+	returns: AflReturnType;
+	description: string;
+	// Accepts any number of extra arguments after the declared ones (printf, StrFormat)
+	variadic?: boolean;
+	// Uses bars after the current one, so its value is not known in real time (Zig, Peak)
+	lookAhead?: boolean;
+}
+
+function p(name: string, type: AflValueType, description?: string, defaultValue?: string): BuiltinParameter {
+	return { name, type, description, defaultValue };
+}
+
+const ARRAY = p('ARRAY', 'array', 'Input array, e.g. Close or any calculated array');
+const PERIODS = p('periods', 'number', 'Number of bars used in the calculation');
+
+export const BUILTIN_FUNCTIONS: BuiltinFunction[] = [
+	// Moving averages and smoothing
+	{ name: 'MA', params: [ARRAY, PERIODS], returns: 'array', description: 'Simple moving average of ARRAY over the given number of periods.' },
+	{ name: 'EMA', params: [ARRAY, PERIODS], returns: 'array', description: 'Exponential moving average of ARRAY over the given number of periods.' },
+	{ name: 'WMA', params: [ARRAY, PERIODS], returns: 'array', description: 'Weighted moving average of ARRAY over the given number of periods.' },
+	{ name: 'DEMA', params: [ARRAY, PERIODS], returns: 'array', description: 'Double exponential moving average.' },
+	{ name: 'TEMA', params: [ARRAY, PERIODS], returns: 'array', description: 'Triple exponential moving average.' },
+	{ name: 'Wilders', params: [ARRAY, PERIODS], returns: 'array', description: 'Wilder\'s smoothing (an exponential average with alpha = 1 / periods).' },
+	{ name: 'AMA', params: [ARRAY, p('smoothingfactor', 'any', 'Smoothing factor, can be an array for adaptive averages')], returns: 'array', description: 'Adaptive moving average with a (possibly variable) smoothing factor.' },
+	{ name: 'LinearReg', params: [ARRAY, PERIODS], returns: 'array', description: 'Linear regression end-point value over the given number of periods.' },
+	{ name: 'LinRegSlope', params: [ARRAY, PERIODS], returns: 'array', description: 'Slope of the linear regression line over the given number of periods.' },
+
+	// Referencing and conditions
+	{ name: 'Ref', params: [ARRAY, p('period', 'number', 'Negative values look back, positive values look into the future')], returns: 'array', description: 'References ARRAY shifted by the given number of bars. Ref( C, -1 ) is the previous bar close.' },
+	{ name: 'Cross', params: [p('ARRAY1', 'array'), p('ARRAY2', 'array')], returns: 'array', description: 'True on the bar where ARRAY1 crosses above ARRAY2.' },
+	{ name: 'ValueWhen', params: [p('EXPRESSION', 'array', 'Condition array'), ARRAY, p('n', 'number', 'Which occurrence to use, 1 is the most recent', '1')], returns: 'array', description: 'Value of ARRAY when EXPRESSION was true on the n-th most recent occurrence.' },
+	{ name: 'BarsSince', params: [ARRAY], returns: 'array', description: 'Number of bars since ARRAY was last true.' },
+	{ name: 'IIf', params: [p('EXPRESSION', 'array', 'Condition'), p('TRUE_PART', 'any'), p('FALSE_PART', 'any')], returns: 'any', description: 'Immediate if: picks TRUE_PART or FALSE_PART bar by bar depending on EXPRESSION.' },
+	{ name: 'ExRem', params: [p('ARRAY1', 'array'), p('ARRAY2', 'array')], returns: 'array', description: 'Removes excessive signals: after ARRAY1 is true, further true values are ignored until ARRAY2 is true.' },
+	{ name: 'ExRemSpan', params: [ARRAY, PERIODS], returns: 'array', description: 'Removes excessive signals that occur within the given number of bars.' },
+	{ name: 'Flip', params: [p('ARRAY1', 'array'), p('ARRAY2', 'array')], returns: 'array', description: 'Returns 1 from the bar ARRAY1 becomes true until ARRAY2 becomes true.' },
+	{ name: 'Hold', params: [p('EXPRESSION', 'array'), PERIODS], returns: 'array', description: 'Holds a true EXPRESSION for the given number of bars.' },
+	{ name: 'Sum', params: [ARRAY, PERIODS], returns: 'array', description: 'Running sum of ARRAY over the given number of periods.' },
+	{ name: 'Cum', params: [ARRAY], returns: 'array', description: 'Cumulative sum of ARRAY from the first bar.' },
+	{ name: 'HHV', params: [ARRAY, PERIODS], returns: 'array', description: 'Highest value of ARRAY over the given number of periods.' },
+	{ name: 'LLV', params: [ARRAY, PERIODS], returns: 'array', description: 'Lowest value of ARRAY over the given number of periods.' },
+	{ name: 'HHVBars', params: [ARRAY, PERIODS], returns: 'array', description: 'Number of bars since the highest value of ARRAY in the given periods.' },
+	{ name: 'LLVBars', params: [ARRAY, PERIODS], returns: 'array', description: 'Number of bars since the lowest value of ARRAY in the given periods.' },
+	{ name: 'StDev', params: [ARRAY, PERIODS], returns: 'array', description: 'Population standard deviation of ARRAY over the given number of periods.' },
+	{ name: 'ROC', params: [ARRAY, PERIODS, p('absmode', 'boolean', 'Use absolute change when the base value is negative', 'False')], returns: 'array', description: 'Percentage rate of change of ARRAY over the given number of periods.' },
+	{ name: 'Zig', params: [ARRAY, p('change', 'number', 'Minimum percentage change')], returns: 'array', description: 'Zig-zag indicator. Looks into the future: the last leg is recalculated as new bars arrive.', lookAhead: true },
+	{ name: 'Peak', params: [ARRAY, p('change', 'number', 'Minimum percentage change'), p('n', 'number', 'Which peak, 1 is the most recent', '1')], returns: 'array', description: 'Value of the n-th most recent Zig peak. Looks into the future.', lookAhead: true },
+	{ name: 'Trough', params: [ARRAY, p('change', 'number', 'Minimum percentage change'), p('n', 'number', 'Which trough, 1 is the most recent', '1')], returns: 'array', description: 'Value of the n-th most recent Zig trough. Looks into the future.', lookAhead: true },
+	{ name: 'PeakBars', params: [ARRAY, p('change', 'number', 'Minimum percentage change'), p('n', 'number', 'Which peak, 1 is the most recent', '1')], returns: 'array', description: 'Bars since the n-th most recent Zig peak. Looks into the future.', lookAhead: true },
+	{ name: 'TroughBars', params: [ARRAY, p('change', 'number', 'Minimum percentage change'), p('n', 'number', 'Which trough, 1 is the most recent', '1')], returns: 'array', description: 'Bars since the n-th most recent Zig trough. Looks into the future.', lookAhead: true },
+
+	// Indicators
+	{ name: 'RSI', params: [p('periods', 'number', 'Number of bars', '14')], returns: 'array', description: 'Relative Strength Index of the close.' },
+	{ name: 'RSIa', params: [ARRAY, p('periods', 'number', 'Number of bars', '14')], returns: 'array', description: 'Relative Strength Index of an arbitrary array.' },
+	{ name: 'MACD', params: [p('fast', 'number', 'Fast EMA periods', '12'), p('slow', 'number', 'Slow EMA periods', '26')], returns: 'array', description: 'Moving average convergence/divergence line.' },
+	{ name: 'Signal', params: [p('fast', 'number', 'Fast EMA periods', '12'), p('slow', 'number', 'Slow EMA periods', '26'), p('signal', 'number', 'Signal EMA periods', '9')], returns: 'array', description: 'MACD signal line.' },
+	{ name: 'ATR', params: [PERIODS], returns: 'array', description: 'Average true range.' },
+	{ name: 'ADX', params: [p('range', 'number', 'Number of bars', '14')], returns: 'array', description: 'Average directional movement index.' },
+	{ name: 'PDI', params: [p('range', 'number', 'Number of bars', '14')], returns: 'array', description: 'Plus directional movement indicator.' },
+	{ name: 'MDI', params: [p('range', 'number', 'Number of bars', '14')], returns: 'array', description: 'Minus directional movement indicator.' },
+	{ name: 'CCI', params: [p('periods', 'number', 'Number of bars', '14')], returns: 'array', description: 'Commodity channel index.' },
+	{ name: 'MFI', params: [p('periods', 'number', 'Number of bars', '14')], returns: 'array', description: 'Money flow index.' },
+	{ name: 'OBV', params: [], returns: 'array', description: 'On-balance volume.' },
+	{ name: 'SAR', params: [p('accel', 'number', 'Acceleration factor', '0.02'), p('max', 'number', 'Maximum acceleration', '0.2')], returns: 'array', description: 'Parabolic stop-and-reverse.' },
+	{ name: 'StochK', params: [p('periods', 'number', 'Number of bars', '14'), p('Ksmooth', 'number', '%K smoothing', '3')], returns: 'array', description: 'Stochastic slow %K line.' },
+	{ name: 'StochD', params: [p('periods', 'number', 'Number of bars', '14'), p('Ksmooth', 'number', '%K smoothing', '3'), p('Dsmooth', 'number', '%D smoothing', '3')], returns: 'array', description: 'Stochastic slow %D line.' },
+	{ name: 'BBandTop', params: [ARRAY, p('periods', 'number', 'Number of bars', '15'), p('width', 'number', 'Width in standard deviations', '2')], returns: 'array', description: 'Upper Bollinger band.' },
+	{ name: 'BBandBot', params: [ARRAY, p('periods', 'number', 'Number of bars', '15'), p('width', 'number', 'Width in standard deviations', '2')], returns: 'array', description: 'Lower Bollinger band.' },
+
+	// Math
+	{ name: 'Max', params: [p('a', 'any'), p('b', 'any')], returns: 'any', description: 'Larger of the two arguments, element by element for arrays.' },
+	{ name: 'Min', params: [p('a', 'any'), p('b', 'any')], returns: 'any', description: 'Smaller of the two arguments, element by element for arrays.' },
+	{ name: 'abs', params: [p('x', 'any')], returns: 'any', description: 'Absolute value.' },
+	{ name: 'round', params: [p('x', 'any')], returns: 'any', description: 'Rounds to the nearest integer.' },
+	{ name: 'floor', params: [p('x', 'any')], returns: 'any', description: 'Largest integer not greater than the argument.' },
+	{ name: 'ceil', params: [p('x', 'any')], returns: 'any', description: 'Smallest integer not less than the argument.' },
+	{ name: 'int', params: [p('x', 'any')], returns: 'any', description: 'Integer part of the argument.' },
+	{ name: 'frac', params: [p('x', 'any')], returns: 'any', description: 'Fractional part of the argument.' },
+	{ name: 'sqrt', params: [p('x', 'any')], returns: 'any', description: 'Square root.' },
+	{ name: 'log', params: [p('x', 'any')], returns: 'any', description: 'Natural logarithm.' },
+	{ name: 'exp', params: [p('x', 'any')], returns: 'any', description: 'Exponential function.' },
+	{ name: 'Nz', params: [p('x', 'any'), p('valueifnull', 'number', 'Replacement for Null values', '0')], returns: 'any', description: 'Replaces Null (empty) values with valueifnull.' },
+	{ name: 'IsNull', params: [p('x', 'any')], returns: 'any', description: 'True where the argument is Null.' },
+	{ name: 'IsEmpty', params: [p('x', 'any')], returns: 'any', description: 'True where the argument is empty.' },
+	{ name: 'IsTrue', params: [p('x', 'any')], returns: 'any', description: 'True where the argument is not zero and not Null.' },
+	{ name: 'LastValue', params: [ARRAY], returns: 'number', description: 'Value of ARRAY on the last bar. Looks into the future when used on historical bars.' },
+	{ name: 'SelectedValue', params: [ARRAY], returns: 'number', description: 'Value of ARRAY at the bar selected in the chart.' },
+	{ name: 'BarIndex', params: [], returns: 'array', description: 'Zero-based bar number array.' },
+
+	// Date and time
+	{ name: 'DateNum', params: [], returns: 'array', description: 'Date of each bar as a number in YYYMMDD format (year - 1900).' },
+	{ name: 'TimeNum', params: [], returns: 'array', description: 'Time of each bar as a number in HHMMSS format.' },
+	{ name: 'DateTime', params: [], returns: 'array', description: 'Date and time of each bar as an encoded DateTime value.' },
+	{ name: 'Day', params: [], returns: 'array', description: 'Day of the month of each bar.' },
+	{ name: 'Month', params: [], returns: 'array', description: 'Month of each bar.' },
+	{ name: 'Year', params: [], returns: 'array', description: 'Year of each bar.' },
+	{ name: 'DayOfWeek', params: [], returns: 'array', description: 'Day of the week of each bar, 0 is Sunday.' },
+
+	// Charting
+	{ name: 'Plot', params: [p('array', 'array', 'Values to plot'), p('name', 'string', 'Caption shown in the title'), p('color', 'color', 'Line color', 'colorDefault'), p('style', 'style', 'Plot style flags', 'styleLine'), p('minvalue', 'number', 'Lower bound of the scale', '{empty}'), p('maxvalue', 'number', 'Upper bound of the scale', '{empty}'), p('XShift', 'number', 'Horizontal shift in bars', '0'), p('Zorder', 'number', 'Drawing layer', '0'), p('width', 'number', 'Line width', '1')], returns: 'void', description: 'Plots an array in the chart pane.' },
+	{ name: 'PlotOHLC', params: [p('open', 'array'), p('high', 'array'), p('low', 'array'), p('close', 'array'), p('name', 'string'), p('color', 'color', 'Bar color', 'colorDefault'), p('style', 'style', 'Plot style flags', 'styleCandle')], returns: 'void', description: 'Plots custom open/high/low/close bars.' },
+	{ name: 'PlotShapes', params: [p('shape', 'shape', 'Shape code array, e.g. shapeUpArrow * Buy'), p('color', 'color'), p('layer', 'number', 'Drawing layer', '0'), p('yposition', 'array', 'Vertical position', 'graph0'), p('offset', 'number', 'Pixel offset', '-12'), p('XShift', 'number', 'Horizontal shift in bars', '0')], returns: 'void', description: 'Draws shapes such as arrows on the chart.' },
+	{ name: 'PlotText', params: [p('text', 'string'), p('x', 'number', 'Bar index'), p('y', 'number', 'Price level'), p('color', 'color'), p('bkcolor', 'color', 'Background color', 'colorDefault'), p('yoffset', 'number', 'Pixel offset', '0')], returns: 'void', description: 'Writes text at the given bar and price.' },
+	{ name: 'SetChartOptions', params: [p('mode', 'number', 'Set, clear or overwrite flags', '0'), p('flags', 'number', 'Chart flags', '0'), p('gridflags', 'number', 'Grid flags', 'chartGridMiddle'), p('ymin', 'number', 'Scale minimum', '0'), p('ymax', 'number', 'Scale maximum', '0'), p('blankbars', 'number', 'Blank bars on the right', '0')], returns: 'void', description: 'Sets chart display options.' },
+	{ name: 'ColorRGB', params: [p('red', 'number'), p('green', 'number'), p('blue', 'number')], returns: 'number', description: 'Builds a color from red, green and blue components (0-255).' },
+	{ name: 'ColorHSB', params: [p('hue', 'number'), p('saturation', 'number'), p('brightness', 'number')], returns: 'number', description: 'Builds a color from hue, saturation and brightness components (0-255).' },
+	{ name: 'GetChartID', params: [], returns: 'number', description: 'Identifier of the chart the formula runs in.' },
+
+	// Parameters
+	{ name: 'Param', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('defaultval', 'number'), p('min', 'number', 'Minimum', '0'), p('max', 'number', 'Maximum', '100'), p('step', 'number', 'Increment', '1'), p('sincr', 'number', 'Increment used when sliding through symbols', '0')], returns: 'number', description: 'Numeric parameter editable in the Parameters dialog.' },
+	{ name: 'ParamColor', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('defaultcolor', 'color')], returns: 'number', description: 'Color parameter editable in the Parameters dialog.' },
+	{ name: 'ParamToggle', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('values', 'string', 'Two captions separated by |, e.g. "No|Yes"'), p('default', 'number', 'Initial state', '0')], returns: 'number', description: 'On/off parameter editable in the Parameters dialog.' },
+	{ name: 'ParamList', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('values', 'string', 'Choices separated by |'), p('default', 'number', 'Zero-based index of the initial choice', '0')], returns: 'string', description: 'Drop-down list parameter. Returns the selected choice as a string.' },
+	{ name: 'ParamStyle', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('default', 'style', 'Initial style', 'styleLine'), p('mask', 'number', 'Which style flags can be edited', 'maskDefault')], returns: 'number', description: 'Plot style parameter editable in the Parameters dialog.' },
+	{ name: 'ParamDate', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('defaultdate', 'string', 'Initial date, e.g. "2024-01-31"'), p('format', 'number', '0 returns DateNum, 1 returns DateTime', '0')], returns: 'number', description: 'Date parameter editable in the Parameters dialog.' },
+	{ name: 'ParamTime', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('defaulttime', 'string', 'Initial time, e.g. "09:30:00"'), p('format', 'number', '0 returns TimeNum, 1 returns DateTime', '0')], returns: 'number', description: 'Time parameter editable in the Parameters dialog.' },
+	{ name: 'ParamStr', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('default', 'string')], returns: 'string', description: 'Text parameter editable in the Parameters dialog.' },
+	{ name: 'ParamField', params: [p('name', 'string', 'Label shown in the Parameters dialog'), p('field', 'number', 'Initial price field index, 3 is Close', '3')], returns: 'array', description: 'Price field parameter. Returns the selected price array.' },
+	{ name: 'Optimize', params: [p('description', 'string'), p('default', 'number'), p('min', 'number'), p('max', 'number'), p('step', 'number')], returns: 'number', description: 'Variable optimized by the backtester; default is used in other modes.' },
+
+	// Backtester
+	{ name: 'ApplyStop', params: [p('type', 'number', 'stopTypeLoss, stopTypeProfit, stopTypeTrailing or stopTypeNBar'), p('mode', 'number', 'stopModeDisable, stopModePercent, stopModePoint or stopModeBars'), p('amount', 'any', 'Stop amount in the units given by mode'), p('exitatstop', 'number', '0 exits on the close, 1 exits at the stop level, 2 exits on the next bar'), p('volatile', 'boolean', 'Recalculate the stop amount on each bar', 'False'), p('ReEntryDelay', 'number', 'Bars to wait before re-entering', '0'), p('ValidFrom', 'number', 'First bar after entry the stop is active', '0'), p('ValidTo', 'number', 'Last bar after entry the stop is active', '-1')], returns: 'void', description: 'Applies a built-in stop to trades in the backtester.' },
+	{ name: 'SetOption', params: [p('field', 'string', 'Option name, e.g. "InitialEquity"'), p('value', 'any')], returns: 'void', description: 'Sets an Analysis window option from the formula.' },
+	{ name: 'SetTradeDelays', params: [p('buydelay', 'number'), p('selldelay', 'number'), p('shortdelay', 'number'), p('coverdelay', 'number')], returns: 'void', description: 'Sets the number of bars between a signal and its execution.' },
+	{ name: 'SetPositionSize', params: [p('size', 'any'), p('method', 'number', 'spsValue, spsPercentOfEquity, spsShares, spsPercentOfPosition or spsNoChange')], returns: 'array', description: 'Sets the position size using the given method.' },
+	{ name: 'SetBacktestMode', params: [p('mode', 'number', 'backtestRegular, backtestRegularRaw, backtestRotational and related modes')], returns: 'void', description: 'Selects the backtester mode.' },
+	{ name: 'EnableRotationalTrading', params: [], returns: 'void', description: 'Switches the backtester to rotational mode. Superseded by SetBacktestMode( backtestRotational ).' },
+	{ name: 'Equity', params: [p('flags', 'number', '', '0'), p('range', 'number', '', '-1'), p('from', 'number', '', 'Null'), p('to', 'number', '', 'Null')], returns: 'array', description: 'Runs a single-symbol backtest and returns the equity line.' },
+
+	// Exploration
+	{ name: 'AddColumn', params: [p('array', 'array', 'Values to show'), p('caption', 'string', 'Column header'), p('format', 'number', 'Number format, e.g. 1.2', '1.2'), p('fgcolor', 'color', 'Text color', 'colorDefault'), p('bkcolor', 'color', 'Background color', 'colorDefault'), p('width', 'number', 'Column width in pixels', '-1'), p('barchart', 'array', 'Optional in-cell bar chart values', 'Null')], returns: 'void', description: 'Adds a numeric column to the exploration output.' },
+	{ name: 'AddTextColumn', params: [p('text', 'string', 'Text to show'), p('caption', 'string', 'Column header'), p('format', 'number', 'Number format', '1.2'), p('fgcolor', 'color', 'Text color', 'colorDefault'), p('bkcolor', 'color', 'Background color', 'colorDefault'), p('width', 'number', 'Column width in pixels', '-1')], returns: 'void', description: 'Adds a text column to the exploration output.' },
+	{ name: 'SetSortColumns', params: [p('col1', 'number', 'Column number, negative for descending order')], returns: 'void', description: 'Sets the initial sort order of the exploration result.', variadic: true },
+
+	// Foreign data and time frames
+	{ name: 'Foreign', params: [p('ticker', 'string'), p('field', 'string', 'Price field, e.g. "C" or "Close"'), p('fixup', 'number', 'Fill missing bars', '1')], returns: 'array', description: 'Returns a price array of another symbol.' },
+	{ name: 'SetForeign', params: [p('ticker', 'string'), p('fixup', 'boolean', 'Fill missing bars', 'True'), p('tradeprices', 'boolean', 'Also replace trade prices', 'False')], returns: 'void', description: 'Replaces the current price arrays with those of another symbol.' },
+	{ name: 'RestorePriceArrays', params: [], returns: 'void', description: 'Restores the price arrays replaced by SetForeign or TimeFrameSet.' },
+	{ name: 'TimeFrameSet', params: [p('interval', 'number', 'e.g. inDaily, inWeekly or a number of seconds')], returns: 'void', description: 'Switches the price arrays to a higher time frame.' },
+	{ name: 'TimeFrameRestore', params: [], returns: 'void', description: 'Restores the price arrays to the original time frame.' },
+	{ name: 'TimeFrameExpand', params: [ARRAY, p('interval', 'number'), p('mode', 'number', 'expandLast, expandFirst or expandPoint', 'expandLast')], returns: 'array', description: 'Expands a compressed array back to the original time frame.' },
+	{ name: 'TimeFrameCompress', params: [ARRAY, p('interval', 'number'), p('mode', 'number', 'compressLast, compressOpen, compressHigh, compressLow or compressVolume', 'compressLast')], returns: 'array', description: 'Compresses an array to a higher time frame.' },
+
+	// Static and dynamic variables
+	{ name: 'StaticVarSet', params: [p('varname', 'string'), p('value', 'any'), p('persist', 'boolean', 'Keep the value between sessions', 'False')], returns: 'void', description: 'Stores a value in a static variable shared between formulas.' },
+	{ name: 'StaticVarGet', params: [p('varname', 'string'), p('align', 'boolean', 'Align arrays to the current symbol', 'True')], returns: 'any', description: 'Reads a static variable.' },
+	{ name: 'StaticVarSetText', params: [p('varname', 'string'), p('value', 'string'), p('persist', 'boolean', 'Keep the value between sessions', 'False')], returns: 'void', description: 'Stores a string in a static variable.' },
+	{ name: 'StaticVarGetText', params: [p('varname', 'string')], returns: 'string', description: 'Reads a string static variable.' },
+	{ name: 'VarSet', params: [p('varname', 'string'), p('value', 'any')], returns: 'void', description: 'Sets a variable whose name is built at run time.' },
+	{ name: 'VarGet', params: [p('varname', 'string')], returns: 'any', description: 'Reads a variable whose name is built at run time.' },
+
+	// Strings and output
+	{ name: 'printf', params: [p('formatstr', 'string', 'C-style format string')], returns: 'void', description: 'Prints formatted text to the Interpretation window.', variadic: true },
+	{ name: 'StrFormat', params: [p('formatstr', 'string', 'C-style format string')], returns: 'string', description: 'Returns formatted text.', variadic: true },
+	{ name: 'NumToStr', params: [p('NUMBER', 'any'), p('format', 'number', 'Number format, e.g. 1.2', '1.3'), p('separator', 'boolean', 'Use thousands separator', 'True')], returns: 'string', description: 'Converts a number to a string.' },
+	{ name: 'StrToNum', params: [p('string', 'string')], returns: 'number', description: 'Converts a string to a number.' },
+	{ name: 'WriteIf', params: [p('EXPRESSION', 'any'), p('truetext', 'string'), p('falsetext', 'string')], returns: 'string', description: 'Returns truetext or falsetext depending on EXPRESSION on the selected bar.' },
+	{ name: 'WriteVal', params: [p('ARRAY', 'any'), p('format', 'number', 'Number format', '8.3')], returns: 'string', description: 'Converts a value on the selected bar to text.' },
+	{ name: 'StrLen', params: [p('string', 'string')], returns: 'number', description: 'Length of the string.' },
+	{ name: 'StrLeft', params: [p('string', 'string'), p('count', 'number')], returns: 'string', description: 'First count characters of the string.' },
+	{ name: 'StrRight', params: [p('string', 'string'), p('count', 'number')], returns: 'string', description: 'Last count characters of the string.' },
+	{ name: 'StrMid', params: [p('string', 'string'), p('start', 'number', 'Zero-based start index'), p('count', 'number', 'Number of characters', '-1')], returns: 'string', description: 'Substring starting at the given index.' },
+	{ name: 'StrFind', params: [p('string', 'string'), p('substring', 'string')], returns: 'number', description: 'One-based position of substring, or 0 when not found.' },
+	{ name: 'StrExtract', params: [p('list', 'string'), p('item', 'number', 'Zero-based item index'), p('separator', 'string', 'Separator character', '\',\'')], returns: 'string', description: 'Extracts one item from a separated list.' },
+	{ name: 'Name', params: [], returns: 'string', description: 'Ticker symbol of the current security.' },
+	{ name: 'FullName', params: [], returns: 'string', description: 'Full name of the current security.' },
+	{ name: 'Interval', params: [p('format', 'number', '0 returns seconds, 1 and 2 return text', '0')], returns: 'any', description: 'Bar interval of the current chart.' },
+	{ name: 'Status', params: [p('what', 'string', 'e.g. "action", "stocknum", "barinrange"')], returns: 'any', description: 'Returns run-time information about the formula execution.' },
+
+	// Formula structure
+	{ name: '_SECTION_BEGIN', params: [p('name', 'string', 'Section name')], returns: 'void', description: 'Starts a named formula section. Parameters defined inside are grouped under the section name.' },
+	{ name: '_SECTION_END', params: [], returns: 'void', description: 'Ends the current formula section.' },
+	{ name: '_N', params: [p('text', 'string')], returns: 'string', description: 'Prevents the text from being shown in the Interpretation window.' },
+	{ name: '_TRACE', params: [p('text', 'string')], returns: 'void', description: 'Writes text to the debug output.' },
+	{ name: '_DEFAULT_NAME', params: [], returns: 'string', description: 'Default chart title built from the formula name and its parameters.' },
+	{ name: '_PARAM_VALUES', params: [], returns: 'string', description: 'Current parameter values of the section as text.' },
+	{ name: 'SetFormulaName', params: [p('name', 'string')], returns: 'void', description: 'Sets the name shown in the backtest report.' },
+	{ name: 'RequestTimedRefresh', params: [p('interval', 'number', 'Seconds between refreshes'), p('onlyvisible', 'boolean', 'Refresh only visible charts', 'True')], returns: 'void', description: 'Refreshes the chart periodically.' },
+];
+
+// Which argument slots a constant is meant for: Plot() colors, styles, PlotShapes() shapes
+export type ConstantKind = 'color' | 'style' | 'shape' | 'other';
+
+export interface BuiltinConstant {
+	name: string;
+	kind: ConstantKind;
+	value: number;
+	description: string;
+	// CSS color for color constants
+	color?: string;
+}
+
+function color(name: string, value: number, hex: string): BuiltinConstant {
+	return { name, kind: 'color', value, description: `Palette color ${value}`, color: hex };
+}
+
+function style(name: string, value: number, description: string): BuiltinConstant {
+	return { name, kind: 'style', value, description };
+}
+
+function shape(name: string, value: number, description: string): BuiltinConstant {
+	return { name, kind: 'shape', value, description };
+}
+
+function constant(name: string, value: number, description: string): BuiltinConstant {
+	return { name, kind: 'other', value, description };
+}
+
+export const BUILTIN_CONSTANTS: BuiltinConstant[] = [
+	{ name: 'colorDefault', kind: 'color', value: -1, description: 'Default color of the chart element' },
+	{ name: 'colorCycle', kind: 'color', value: -2, description: 'Picks the next color of the cycle for each plot' },
+	// colorCustom1..16 are the 16 user-defined colors, before the fixed palette
+	...Array.from({ length: 16 }, (_, i): BuiltinConstant => ({
+		name: `colorCustom${i + 1}`,
+		kind: 'color',
+		value: i,
+		description: `Custom color ${i + 1}, set in Tools > Preferences > Colors`,
+	})),
+	color('colorBlack', 16, '#000000'),
+	color('colorBrown', 17, '#993300'),
+	color('colorDarkOliveGreen', 18, '#333300'),
+	color('colorDarkGreen', 19, '#003300'),
+	color('colorDarkTeal', 20, '#003366'),
+	color('colorDarkBlue', 21, '#000080'),
+	color('colorIndigo', 22, '#333399'),
+	color('colorDarkGrey', 23, '#333333'),
+	color('colorDarkRed', 24, '#800000'),
+	color('colorOrange', 25, '#FF6600'),
+	color('colorDarkYellow', 26, '#808000'),
+	color('colorGreen', 27, '#008000'),
+	color('colorTeal', 28, '#008080'),
+	color('colorBlue', 29, '#0000FF'),
+	color('colorBlueGrey', 30, '#666699'),
+	color('colorGrey40', 31, '#808080'),
+	color('colorRed', 32, '#FF0000'),
+	color('colorLightOrange', 33, '#FF9900'),
+	color('colorLime', 34, '#99CC00'),
+	color('colorSeaGreen', 35, '#339966'),
+	color('colorAqua', 36, '#33CCCC'),
+	color('colorLightBlue', 37, '#3366FF'),
+	color('colorViolet', 38, '#800080'),
+	color('colorGrey50', 39, '#969696'),
+	color('colorPink', 40, '#FF00FF'),
+	color('colorGold', 41, '#FFCC00'),
+	color('colorYellow', 42, '#FFFF00'),
+	color('colorBrightGreen', 43, '#00FF00'),
+	color('colorTurquoise', 44, '#00FFFF'),
+	color('colorSkyblue', 45, '#00CCFF'),
+	color('colorPlum', 46, '#993366'),
+	color('colorLightGrey', 47, '#C0C0C0'),
+	color('colorRose', 48, '#FF99CC'),
+	color('colorTan', 49, '#FFCC99'),
+	color('colorLightYellow', 50, '#FFFF99'),
+	color('colorPaleGreen', 51, '#CCFFCC'),
+	color('colorPaleTurquoise', 52, '#CCFFFF'),
+	color('colorPaleBlue', 53, '#99CCFF'),
+	color('colorLavender', 54, '#CC99FF'),
+	color('colorWhite', 55, '#FFFFFF'),
+
+	// Plot styles, combined with +
+	style('styleLine', 1, 'Line chart'),
+	style('styleHistogram', 2, 'Histogram'),
+	style('styleThick', 4, 'Thick line'),
+	style('styleDots', 8, 'Dots at data points'),
+	style('styleNoLine', 16, 'No line, usually combined with styleDots'),
+	style('styleDashed', 32, 'Dashed line'),
+	style('styleCandle', 64, 'Candlestick chart'),
+	style('styleBar', 128, 'Bar (OHLC) chart'),
+	style('styleNoTitle', 256, 'Leaves the plot out of the chart title'),
+	style('styleStaircase', 512, 'Staircase line'),
+	style('styleSwingDots', 1024, 'Dots at swing points'),
+	style('styleNoRescale', 2048, 'Does not change the scale of the chart'),
+	style('styleNoLabel', 4096, 'No value label on the axis'),
+	style('stylePointAndFigure', 8192, 'Point and figure chart'),
+	style('styleArea', 16384, 'Filled area chart'),
+	style('styleOwnScale', 32768, 'Uses its own scale, independent of the other plots'),
+	style('styleLeftAxisScale', 65536, 'Uses the left axis scale'),
+	style('styleNoDraw', 131072, 'Computes the plot without drawing it'),
+	style('styleCloud', 262144, 'Cloud between two arrays, used by PlotOHLC()'),
+	style('styleClipMinMax', 524288, 'Clips the plot to the min/max range'),
+	style('styleGradient', 1048576, 'Gradient area chart'),
+
+	// PlotShapes() shapes
+	shape('shapeNone', 0, 'No shape'),
+	shape('shapeUpArrow', 1, 'Up arrow'),
+	shape('shapeDownArrow', 2, 'Down arrow'),
+	shape('shapeHollowUpArrow', 3, 'Hollow up arrow'),
+	shape('shapeHollowDownArrow', 4, 'Hollow down arrow'),
+	shape('shapeSmallUpTriangle', 5, 'Small up triangle'),
+	shape('shapeSmallDownTriangle', 6, 'Small down triangle'),
+	shape('shapeHollowSmallUpTriangle', 7, 'Hollow small up triangle'),
+	shape('shapeHollowSmallDownTriangle', 8, 'Hollow small down triangle'),
+	shape('shapeUpTriangle', 9, 'Up triangle'),
+	shape('shapeDownTriangle', 10, 'Down triangle'),
+	shape('shapeHollowUpTriangle', 11, 'Hollow up triangle'),
+	shape('shapeHollowDownTriangle', 12, 'Hollow down triangle'),
+	shape('shapeSmallSquare', 13, 'Small square'),
+	shape('shapeHollowSmallSquare', 14, 'Hollow small square'),
+	shape('shapeSquare', 15, 'Square'),
+	shape('shapeHollowSquare', 16, 'Hollow square'),
+	shape('shapeSmallCircle', 17, 'Small circle'),
+	shape('shapeHollowSmallCircle', 18, 'Hollow small circle'),
+	shape('shapeCircle', 19, 'Circle'),
+	shape('shapeHollowCircle', 20, 'Hollow circle'),
+	shape('shapeStar', 21, 'Star'),
+	shape('shapeHollowStar', 22, 'Hollow star'),
+
+	// Logical values
+	constant('True', 1, 'Logical true'),
+	constant('False', 0, 'Logical false'),
+	constant('Null', -1e10, 'Empty value, not drawn and skipped by most functions'),
+
+	// SetBacktestMode()
+	constant('backtestRegular', 0, 'Regular backtest with redundant signals removed'),
+	constant('backtestRegularRaw', 1, 'Regular backtest keeping redundant entry signals'),
+	constant('backtestRotational', 2, 'Rotational trading driven by PositionScore'),
+	constant('backtestRegularRawMulti', 3, 'Raw mode allowing several open positions per symbol'),
+
+	// ApplyStop()
+	constant('stopTypeLoss', 0, 'Maximum loss stop'),
+	constant('stopTypeProfit', 1, 'Profit target stop'),
+	constant('stopTypeTrailing', 2, 'Trailing stop'),
+	constant('stopTypeNBar', 3, 'Exit after a number of bars'),
+	constant('stopModeDisable', 0, 'Disables the stop'),
+	constant('stopModePercent', 1, 'Amount is a percentage'),
+	constant('stopModePoint', 2, 'Amount is in points'),
+	constant('stopModeRisk', 3, 'Amount is a percentage of the initial risk'),
+	constant('stopModeBars', 4, 'Amount is a number of bars'),
+
+	// TimeFrameSet() intervals in seconds
+	constant('in1Minute', 60, 'One-minute bars'),
+	constant('in5Minute', 300, 'Five-minute bars'),
+	constant('in15Minute', 900, 'Fifteen-minute bars'),
+	constant('inHourly', 3600, 'Hourly bars'),
+	constant('inDaily', 86400, 'Daily bars'),
+	constant('inWeekly', 432001, 'Weekly bars'),
+	constant('inMonthly', 2160001, 'Monthly bars'),
+];
+
+const builtinConstantMap = new Map<string, BuiltinConstant>(
+	BUILTIN_CONSTANTS.map(constant => [constant.name.toLowerCase(), constant])
+);
+
+export function getBuiltinConstant(name: string): BuiltinConstant | undefined {
+	return builtinConstantMap.get(name.toLowerCase());
+}
+
+// Variables with a special meaning to AmiBroker: price arrays, backtester signals and chart settings
+export const RESERVED_VARIABLES: string[] = [
+	'Open', 'High', 'Low', 'Close', 'Volume', 'OpenInt', 'Avg',
+	'O', 'H', 'L', 'C', 'V', 'OI', 'A',
+	'Buy', 'Sell', 'Short', 'Cover',
+	'BuyPrice', 'SellPrice', 'ShortPrice', 'CoverPrice',
+	'PositionSize', 'PositionScore', 'RoundLotSize', 'TickSize', 'PointValue', 'MarginDeposit',
+	'Filter', 'NumColumns', 'Exclude',
+	'Title', 'Tooltip', 'GraphXSpace', 'GraphZOrder',
+	'BarCount',
+];
+
+const reservedVariableMap = new Map(RESERVED_VARIABLES.map(name => [name.toLowerCase(), name]));
+
+export function isReservedVariable(name: string): boolean {
+	return reservedVariableMap.has(name.toLowerCase());
+}
+
+// The reserved variable `name` refers to, spelled as in the catalog: "buy" gives "Buy"
+export function getReservedVariable(name: string): string | undefined {
+	return reservedVariableMap.get(name.toLowerCase());
+}
+
+export interface BacktestOption {
+	name: string;
+	description: string;
+}
+
+// Option names accepted by SetOption(), as they appear in the Analysis settings
+export const BACKTEST_OPTIONS: BacktestOption[] = [
+	{ name: 'InitialEquity', description: 'Starting capital of the backtest' },
+	{ name: 'MaxOpenPositions', description: 'Maximum number of positions open at the same time' },
+	{ name: 'MaxOpenLong', description: 'Maximum number of long positions open at the same time' },
+	{ name: 'MaxOpenShort', description: 'Maximum number of short positions open at the same time' },
+	{ name: 'WorstRankHeld', description: 'Keeps a position open while its rank is at most this value' },
+	{ name: 'AllowPositionShrinking', description: 'Opens a smaller position when there is not enough cash' },
+	{ name: 'AllowSameBarExit', description: 'Allows a position to be closed on the bar it was opened' },
+	{ name: 'ActivateStopsImmediately', description: 'Checks stops on the entry bar' },
+	{ name: 'ReverseSignalForcesExit', description: 'Closes a position when the opposite entry signal occurs' },
+	{ name: 'HoldMinBars', description: 'Minimum number of bars a position is held' },
+	{ name: 'CommissionMode', description: '0 = commission table, 1 = percent, 2 = per trade, 3 = per share' },
+	{ name: 'CommissionAmount', description: 'Commission in the unit given by CommissionMode' },
+	{ name: 'InterestRate', description: 'Annual interest earned on cash, in percent' },
+	{ name: 'MarginRequirement', description: 'Margin requirement of stock positions, in percent' },
+	{ name: 'AccountMargin', description: 'Account margin, in percent' },
+	{ name: 'FuturesMode', description: 'Uses MarginDeposit and PointValue to size positions' },
+	{ name: 'MinShares', description: 'Smallest number of shares in a position' },
+	{ name: 'MinPosValue', description: 'Smallest value of a position' },
+	{ name: 'UsePrevBarEquityForPosSizing', description: 'Sizes positions from the equity of the previous bar' },
+	{ name: 'PriceBoundChecking', description: 'Keeps trade prices inside the High-Low range of the bar' },
+	{ name: 'SeparateLongShortRank', description: 'Ranks long and short signals separately' },
+	{ name: 'SettlementDelay', description: 'Number of days before the cash of a sale can be used' },
+	{ name: 'EarlyExitFee', description: 'Fee charged when a position is closed before EarlyExitBars' },
+	{ name: 'EarlyExitBars', description: 'Number of bars before which EarlyExitFee applies' },
+	{ name: 'DisableRuinStop', description: 'Keeps trading after the equity falls below 1% of the initial equity' },
+	{ name: 'PadAndAlignToReference', description: 'Aligns every symbol to the dates of the reference symbol' },
+	{ name: 'NoDefaultColumns', description: 'Hides the default Ticker and Date columns of an exploration' },
+	{ name: 'ExtraColumnsLocation', description: 'Position of the custom backtest columns in the trade list' },
+	{ name: 'GenerateReport', description: '0 = default, 1 = always, 2 = never generate the backtest report' },
+	{ name: 'RefreshWhenCompleted', description: 'Refreshes the charts when the analysis completes' },
+	{ name: 'StaticVarAutoSave', description: 'Interval in seconds at which persistent static variables are saved' },
+];
+
+const builtinFunctionMap = new Map<string, BuiltinFunction>(
+	BUILTIN_FUNCTIONS.map(fn => [fn.name.toLowerCase(), fn])
+);
+
+// AFL identifiers are case-insensitive, so the catalog is too
+export function getBuiltinFunction(name: string): BuiltinFunction | undefined {
+	return builtinFunctionMap.get(name.toLowerCase());
+}
+
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+			current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Finds the catalog name (function, constant or reserved variable) closest to a name that
+ * is not in the catalog, e.g. "Crss" gives "Cross". Short names must be within one edit,
+ * longer ones within two; returns null when nothing is that close.
+ */
+export function findClosestBuiltinName(name: string): string | null {
+	if (name.length < 4) {
+		return null;
+	}
+	const lowerName = name.toLowerCase();
+	const maxDistance = name.length <= 5 ? 1 : 2;
+	const candidates = [
+		...BUILTIN_FUNCTIONS.map(fn => fn.name),
+		...BUILTIN_CONSTANTS.map(constant => constant.name),
+		...RESERVED_VARIABLES,
+	];
+
+	let closest: string | null = null;
+	let closestDistance = maxDistance + 1;
+	for (const candidate of candidates) {
+		const lowerCandidate = candidate.toLowerCase();
+		if (lowerCandidate === lowerName || Math.abs(candidate.length - name.length) > maxDistance) {
+			continue;
+		}
+		const distance = editDistance(lowerName, lowerCandidate);
+		if (distance < closestDistance) {
+			closest = candidate;
+			closestDistance = distance;
+		}
+	}
+	return closest;
+}
+
+function formatParameter(param: BuiltinParameter): string {
+	return param.defaultValue !== undefined ? `${param.name} = ${param.defaultValue}` : param.name;
+}
+
+export function formatSignature(fn: BuiltinFunction): string {
+	const params = fn.params.map(formatParameter);
+	if (fn.variadic) {
+		params.push('...');
+	}
+	const args = params.length > 0 ? `( ${params.join(', ')} )` : '()';
+	return `${fn.name}${args}: ${fn.returns}`;
+}
+
+export function getBuiltinDocumentation(fn: BuiltinFunction): MarkupContent {
+	const lines = ['```afl', formatSignature(fn), '```', '', fn.description];
+	const documented = fn.params.filter(param => param.description);
+	if (documented.length > 0) {
+		lines.push('');
+		for (const param of documented) {
+			lines.push(`- \`${param.name}\` (${param.type}): ${param.description}`);
+		}
+	}
+	return { kind: MarkupKind.Markdown, value: lines.join('\n') };
+}
+
+export function getSignatureInformation(fn: BuiltinFunction): SignatureInformation {
+	const label = formatSignature(fn);
+	const parameters: ParameterInformation[] = [];
+
+	// Use label offsets so the client can highlight the exact parameter text
+	let searchFrom = fn.name.length;
+	for (const param of fn.params) {
+		const text = formatParameter(param);
+		const start = label.indexOf(text, searchFrom);
+		const end = start + text.length;
+		searchFrom = end;
+		parameters.push({
+			label: [start, end],
+			documentation: param.description ? `${param.type} - ${param.description}` : param.type,
+		});
+	}
+
+	return {
+		label,
+		documentation: { kind: MarkupKind.Markdown, value: fn.description },
+		parameters,
+	};
+}
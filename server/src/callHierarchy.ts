@@ -0,0 +1,114 @@
+import { CallHierarchyItem, Range, SymbolKind } from 'vscode-languageserver';
+import type { AnyNode, FunctionDeclaration, Program } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import * as path from 'path';
+import { forEachChild, nodeRange } from './util';
+import { uriToPath } from './includes';
+
+export interface CallSite {
+	// Name of the called function as written
+	name: string;
+	// Range of the callee name
+	range: Range;
+	// Function the call is in, null for calls at formula level
+	caller: FunctionDeclaration | null;
+}
+
+/**
+ * Lists every call of a named function in a formula, built-in or not, with the function
+ * declaration it is made from.
+ */
+export function findCallSites(ast: Program): CallSite[] {
+	const sites: CallSite[] = [];
+	const visit = (node: AnyNode, caller: FunctionDeclaration | null) => {
+		if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+			forEachChild(node.body, child => visit(child, node.id ? node as FunctionDeclaration : caller));
+			return;
+		}
+		if (node.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier) {
+			sites.push({ name: node.callee.name, range: nodeRange(node.callee), caller });
+		}
+		forEachChild(node, child => visit(child, caller));
+	};
+	visit(ast, null);
+	return sites;
+}
+
+// Finds the top-level `function`/`procedure` named `name`, ignoring case like AmiBroker does
+export function findFunctionDeclaration(ast: Program, name: string): FunctionDeclaration | null {
+	const lowerName = name.toLowerCase();
+	for (const node of ast.body) {
+		if (node.type === AST_NODE_TYPES.FunctionDeclaration && node.id.name.toLowerCase() === lowerName) {
+			return node;
+		}
+	}
+	return null;
+}
+
+export function functionItem(uri: string, fn: FunctionDeclaration): CallHierarchyItem {
+	return {
+		name: fn.id.name,
+		kind: SymbolKind.Function,
+		detail: `( ${fn.params.map(param => (param as { name: string }).name).join(', ')} )`,
+		uri,
+		range: nodeRange(fn),
+		selectionRange: nodeRange(fn.id),
+	};
+}
+
+// Stands for the formula-level code of a file, which calls functions but cannot be called
+export function formulaItem(uri: string, ast: Program): CallHierarchyItem {
+	const range = nodeRange(ast);
+	return {
+		name: path.basename(uriToPath(uri) ?? uri),
+		kind: SymbolKind.File,
+		uri,
+		range,
+		selectionRange: Range.create(range.start, range.start),
+	};
+}
+
+/**
+ * Finds call chains that lead from a function back to itself. Returns, for each
+ * recursive function, the call sites of one such chain starting at the function.
+ */
+export function findRecursion(ast: Program): Map<FunctionDeclaration, CallSite[]> {
+	const functions = new Map<string, FunctionDeclaration>();
+	for (const node of ast.body) {
+		if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+			functions.set(node.id.name.toLowerCase(), node);
+		}
+	}
+
+	// Calls between the user functions of the formula, by lower-case caller name
+	const calls = new Map<string, CallSite[]>();
+	for (const site of findCallSites(ast)) {
+		if (site.caller && functions.has(site.name.toLowerCase())) {
+			const key = site.caller.id.name.toLowerCase();
+			calls.set(key, [...calls.get(key) ?? [], site]);
+		}
+	}
+
+	const result = new Map<FunctionDeclaration, CallSite[]>();
+	for (const [name, fn] of functions) {
+		// Breadth first, so that the shortest chain is reported
+		const queue: { name: string; chain: CallSite[] }[] = [{ name, chain: [] }];
+		const visited = new Set<string>();
+		while (queue.length > 0 && !result.has(fn)) {
+			const current = queue.shift()!;
+			for (const site of calls.get(current.name) ?? []) {
+				const callee = site.name.toLowerCase();
+				const chain = [...current.chain, site];
+				if (callee === name) {
+					result.set(fn, chain);
+					break;
+				}
+				if (!visited.has(callee)) {
+					visited.add(callee);
+					queue.push({ name: callee, chain });
+				}
+			}
+		}
+	}
+	return result;
+}
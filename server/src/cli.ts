@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToUri, readFileText } from './includes';
+import { LintOptions, fixText, lintText } from './linter';
+import { DocumentAnalysis, createAnalysis, getIncludes } from './analysis';
+import { RuleSeveritySetting, rules } from './rules';
+import { findAflFiles } from './workspaceIndex';
+
+type OutputFormat = 'human' | 'json' | 'sarif';
+
+interface CliArguments {
+	paths: string[];
+	format: OutputFormat;
+	fix: boolean;
+	config: string | null;
+}
+
+// Settings read from the config file, the same as `aflLsp.rules` and `aflLsp.includeRoot`
+interface LintConfig {
+	rules?: Partial<Record<string, RuleSeveritySetting>>;
+	includeRoot?: string;
+}
+
+interface FileResult {
+	path: string;
+	diagnostics: Diagnostic[];
+}
+
+// Config file looked up in the working directory when --config is not given
+const DEFAULT_CONFIG_FILE = '.afl-lint.json';
+const DEFAULT_INCLUDE_ROOT = 'C:\\Program Files\\AmiBroker\\Formulas\\Include';
+const SEVERITY_SETTINGS = new Set<string>(['off', 'error', 'warning', 'information', 'hint']);
+
+const USAGE = `Usage: afl-lint [options] [files or folders...]
+
+Checks AmiBroker formulas (.afl) with the rules of the language server.
+Folders are searched recursively; the default is the current folder.
+
+Options:
+  --format <human|json|sarif>  Output format (default: human)
+  --fix                        Apply the quick-fixes and write the files back
+  --config <file>              Config file (default: ${DEFAULT_CONFIG_FILE} if present)
+  -h, --help                   Show this help
+
+Config file:
+  { "rules": { "unused-variable": "off", "future-leak": "error" }, "includeRoot": "C:/AmiBroker/Formulas/Include" }
+
+Exits with 1 when an error is reported and 2 when the arguments or the config are invalid.
+`;
+
+class UsageError extends Error {}
+
+function parseArguments(argv: string[]): CliArguments | null {
+	const args: CliArguments = { paths: [], format: 'human', fix: false, config: null };
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (arg === '-h' || arg === '--help') {
+			return null;
+		} else if (arg === '--fix') {
+			args.fix = true;
+		} else if (arg === '--format' || arg === '--config') {
+			const value = argv[++i];
+			if (value === undefined) {
+				throw new UsageError(`Missing value for ${arg}`);
+			}
+			if (arg === '--config') {
+				args.config = value;
+			} else if (value === 'human' || value === 'json' || value === 'sarif') {
+				args.format = value;
+			} else {
+				throw new UsageError(`Unknown format '${value}', expected human, json or sarif`);
+			}
+		} else if (arg.startsWith('-')) {
+			throw new UsageError(`Unknown option '${arg}'`);
+		} else {
+			args.paths.push(arg);
+		}
+	}
+	if (args.paths.length === 0) {
+		args.paths.push('.');
+	}
+	return args;
+}
+
+function readConfig(configPath: string | null): LintConfig {
+	const file = configPath ?? DEFAULT_CONFIG_FILE;
+	if (!fs.existsSync(file)) {
+		if (configPath) {
+			throw new UsageError(`Config file '${configPath}' not found`);
+		}
+		return {};
+	}
+
+	let config: LintConfig;
+	try {
+		config = JSON.parse(fs.readFileSync(file, 'utf8'));
+	} catch (error) {
+		throw new UsageError(`Cannot read config file '${file}': ${(error as Error).message}`);
+	}
+	for (const [id, setting] of Object.entries(config.rules ?? {})) {
+		if (!rules.some(rule => rule.id === id)) {
+			throw new UsageError(`Unknown rule '${id}' in '${file}'`);
+		}
+		if (typeof setting !== 'string' || !SEVERITY_SETTINGS.has(setting)) {
+			throw new UsageError(`Invalid severity '${setting}' for rule '${id}' in '${file}'`);
+		}
+	}
+	return config;
+}
+
+async function collectFiles(paths: string[]): Promise<string[]> {
+	const files: string[] = [];
+	for (const entry of paths) {
+		const stat = fs.statSync(entry, { throwIfNoEntry: false });
+		if (!stat) {
+			throw new UsageError(`No such file or folder '${entry}'`);
+		}
+		if (stat.isDirectory()) {
+			await findAflFiles(path.resolve(entry), files);
+		} else {
+			files.push(path.resolve(entry));
+		}
+	}
+	return [...new Set(files)].sort();
+}
+
+const severityNames: Record<DiagnosticSeverity, string> = {
+	[DiagnosticSeverity.Error]: 'error',
+	[DiagnosticSeverity.Warning]: 'warning',
+	[DiagnosticSeverity.Information]: 'info',
+	[DiagnosticSeverity.Hint]: 'hint',
+};
+
+function severityOf(diagnostic: Diagnostic): DiagnosticSeverity {
+	return diagnostic.severity ?? DiagnosticSeverity.Error;
+}
+
+function formatHuman(results: FileResult[]): string {
+	const lines: string[] = [];
+	const counts = new Map<DiagnosticSeverity, number>();
+	for (const result of results) {
+		if (result.diagnostics.length === 0) {
+			continue;
+		}
+		lines.push(result.path);
+		for (const diagnostic of result.diagnostics) {
+			const severity = severityOf(diagnostic);
+			counts.set(severity, (counts.get(severity) ?? 0) + 1);
+			const { line, character } = diagnostic.range.start;
+			lines.push(`  ${line + 1}:${character + 1}  ${severityNames[severity].padEnd(7)}  ${diagnostic.message}  ${diagnostic.code ?? ''}`.trimEnd());
+		}
+		lines.push('');
+	}
+
+	const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+	if (total > 0) {
+		const summary = [DiagnosticSeverity.Error, DiagnosticSeverity.Warning, DiagnosticSeverity.Information, DiagnosticSeverity.Hint]
+			.filter(severity => counts.has(severity))
+			.map(severity => `${counts.get(severity)} ${severityNames[severity]}`);
+		lines.push(`${total} problem${total === 1 ? '' : 's'} (${summary.join(', ')}) in ${results.length} file${results.length === 1 ? '' : 's'}`);
+	} else {
+		lines.push(`No problems in ${results.length} file${results.length === 1 ? '' : 's'}`);
+	}
+	return lines.join('\n') + '\n';
+}
+
+function formatJson(results: FileResult[]): string {
+	return JSON.stringify(results.map(result => ({
+		path: result.path,
+		diagnostics: result.diagnostics.map(diagnostic => ({
+			rule: diagnostic.code ?? null,
+			severity: severityNames[severityOf(diagnostic)],
+			message: diagnostic.message,
+			line: diagnostic.range.start.line + 1,
+			column: diagnostic.range.start.character + 1,
+			endLine: diagnostic.range.end.line + 1,
+			endColumn: diagnostic.range.end.character + 1,
+		})),
+	})), null, 2) + '\n';
+}
+
+// SARIF 2.1.0, the format code scanning tools such as GitHub's read
+function formatSarif(results: FileResult[]): string {
+	const levels: Record<DiagnosticSeverity, string> = {
+		[DiagnosticSeverity.Error]: 'error',
+		[DiagnosticSeverity.Warning]: 'warning',
+		[DiagnosticSeverity.Information]: 'note',
+		[DiagnosticSeverity.Hint]: 'note',
+	};
+	const sarif = {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: 'afl-lint',
+					rules: [
+						{ id: 'syntax-error', shortDescription: { text: 'The formula must parse' } },
+						...rules.map(rule => ({ id: rule.id, shortDescription: { text: rule.description } })),
+					],
+				},
+			},
+			results: results.flatMap(result => result.diagnostics.map(diagnostic => ({
+				ruleId: String(diagnostic.code ?? 'syntax-error'),
+				level: levels[severityOf(diagnostic)],
+				message: { text: diagnostic.message },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: { uri: result.path.split(path.sep).join('/') },
+						region: {
+							startLine: diagnostic.range.start.line + 1,
+							startColumn: diagnostic.range.start.character + 1,
+							endLine: diagnostic.range.end.line + 1,
+							endColumn: diagnostic.range.end.character + 1,
+						},
+					},
+				}],
+			}))),
+		}],
+	};
+	return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+const formatters: Record<OutputFormat, (results: FileResult[]) => string> = {
+	human: formatHuman,
+	json: formatJson,
+	sarif: formatSarif,
+};
+
+async function main(argv: string[]): Promise<number> {
+	const args = parseArguments(argv);
+	if (!args) {
+		process.stdout.write(USAGE);
+		return 0;
+	}
+	const config = readConfig(args.config);
+	const files = await collectFiles(args.paths);
+	const options: LintOptions = {
+		rules: config.rules ?? {},
+		includeRoot: config.includeRoot ?? DEFAULT_INCLUDE_ROOT,
+		readText: readFileText,
+	};
+
+	// Include trees are resolved up front, so that rules know which files are included by others
+	const analyses = new Map<string, DocumentAnalysis>();
+	for (const file of files) {
+		const uri = pathToUri(file);
+		const analysis = createAnalysis(uri, readFileText(uri) ?? '');
+		getIncludes(analysis, options.includeRoot, options.readText);
+		analyses.set(file, analysis);
+	}
+
+	const results: FileResult[] = [];
+	for (const file of files) {
+		const analysis = analyses.get(file)!;
+		let diagnostics: Diagnostic[];
+		if (args.fix) {
+			const fixed = fixText(analysis.uri, analysis.text, options);
+			if (fixed.text !== analysis.text) {
+				fs.writeFileSync(file, fixed.text, 'utf8');
+			}
+			diagnostics = fixed.diagnostics;
+		} else {
+			diagnostics = lintText(analysis.uri, analysis.text, options, analysis);
+		}
+		diagnostics.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+		results.push({ path: path.relative(process.cwd(), file) || file, diagnostics });
+	}
+
+	process.stdout.write(formatters[args.format](results));
+	return results.some(result => result.diagnostics.some(diagnostic => severityOf(diagnostic) === DiagnosticSeverity.Error)) ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+	code => {
+		process.exitCode = code;
+	},
+	error => {
+		process.stderr.write(`afl-lint: ${error instanceof UsageError ? error.message : (error as Error).stack}\n`);
+		process.exitCode = 2;
+	}
+);
@@ -0,0 +1,181 @@
+import { CompletionItem, CompletionItemKind, Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+	BACKTEST_OPTIONS,
+	BUILTIN_CONSTANTS,
+	BUILTIN_FUNCTIONS,
+	ConstantKind,
+	formatSignature,
+	getBuiltinFunction,
+} from './builtins';
+import { Token, tokenize } from './lexer';
+import { getSnippetCompletions } from './snippets';
+import { SymbolBinding, symbolKey } from './symbolTable';
+import { getCallContext } from './util';
+
+// Where the cursor is: in code, in a comment, or in a string that starts at `start`
+export type CursorContext =
+	| { kind: 'code' }
+	| { kind: 'comment' }
+	| { kind: 'string'; start: number; tokensBefore: Token[] };
+
+// Sort groups, so that the names closest to the cursor come first
+const SORT_LOCAL = '0';
+const SORT_DOCUMENT = '1';
+const SORT_INCLUDED = '2';
+const SORT_BUILTIN_FUNCTION = '3';
+const SORT_BUILTIN_CONSTANT = '4';
+
+// A string token that reaches the cursor without its closing quote
+function isOpenString(token: Token): boolean {
+	return !/^"(?:[^"\\\n]|\\.)*"$/.test(token.value);
+}
+
+function isOpenComment(token: Token): boolean {
+	return token.type === 'lineComment' || !token.value.endsWith('*/') || token.value.length < 4;
+}
+
+export function getCursorContext(text: string, offset: number): CursorContext {
+	const tokens = tokenize(text.slice(0, offset));
+	const last = tokens[tokens.length - 1];
+	if (!last || last.end < offset) {
+		return { kind: 'code' };
+	}
+	if ((last.type === 'lineComment' || last.type === 'blockComment') && isOpenComment(last)) {
+		return { kind: 'comment' };
+	}
+	if (last.type === 'string' && isOpenString(last)) {
+		return { kind: 'string', start: last.start, tokensBefore: tokens.slice(0, -1) };
+	}
+	return { kind: 'code' };
+}
+
+/**
+ * Choices of the ParamList() assigned to `name`, e.g. Long, Short and Both for
+ * `Mode = ParamList( "Mode", "Long|Short|Both" );`. Read from the text, since the string
+ * being typed usually keeps the document from parsing.
+ */
+function findParamListChoices(text: string, name: string): string[] {
+	const pattern = /([A-Za-z_][A-Za-z0-9_]*)\s*=\s*ParamList\s*\(\s*"[^"\n]*"\s*,\s*"([^"\n]*)"/gi;
+	for (const match of text.matchAll(pattern)) {
+		if (symbolKey(match[1]) === symbolKey(name)) {
+			return match[2].split('|').filter(choice => choice.length > 0);
+		}
+	}
+	return [];
+}
+
+function getStringCompletions(document: TextDocument, position: Position, context: { start: number; tokensBefore: Token[] }): CompletionItem[] {
+	const text = document.getText();
+	// Replace what is already typed between the quote and the cursor, choices may contain spaces
+	const range = Range.create(document.positionAt(context.start + 1), position);
+
+	const call = getCallContext(text, document.offsetAt(position));
+	if (call && call.activeParameter === 0 && symbolKey(call.name) === 'setoption') {
+		return BACKTEST_OPTIONS.map(option => ({
+			label: option.name,
+			kind: CompletionItemKind.Property,
+			detail: option.description,
+			textEdit: { range, newText: option.name },
+		}));
+	}
+
+	// `Mode == "` with Mode assigned from a ParamList
+	const [variable, operator] = context.tokensBefore.slice(-2);
+	if (variable?.type === 'identifier' && (operator?.value === '==' || operator?.value === '!=')) {
+		return findParamListChoices(text, variable.value).map(choice => ({
+			label: choice,
+			kind: CompletionItemKind.EnumMember,
+			detail: `ParamList choice of ${variable.value}`,
+			textEdit: { range, newText: choice },
+		}));
+	}
+	return [];
+}
+
+function getBindingSortGroup(uri: string, binding: SymbolBinding): string {
+	if (binding.loc.uri !== uri) {
+		return SORT_INCLUDED;
+	}
+	return binding.scope.kind === 'function' ? SORT_LOCAL : SORT_DOCUMENT;
+}
+
+// The kind of constants an argument slot takes, e.g. 'color' for the third argument of Plot()
+function getArgumentConstantKind(text: string, offset: number, visible: SymbolBinding[]): ConstantKind | null {
+	const call = getCallContext(text, offset);
+	if (!call) {
+		return null;
+	}
+	// A user function of the same name replaces the built-in
+	if (visible.some(binding => binding.kind === 'function' && symbolKey(binding.name) === symbolKey(call.name))) {
+		return null;
+	}
+	const type = getBuiltinFunction(call.name)?.params[call.activeParameter]?.type;
+	return type === 'color' || type === 'style' || type === 'shape' ? type : null;
+}
+
+/**
+ * Computes the completion items at `position`. Color, style and shape arguments only get
+ * the matching constants, strings get SetOption() names and ParamList() choices, and
+ * comments and other strings get nothing. Elsewhere the names visible at the cursor come
+ * first, local ones before formula-level and included ones, then the built-ins and snippets.
+ */
+export function getCompletions(document: TextDocument, position: Position, visible: SymbolBinding[]): CompletionItem[] {
+	const text = document.getText();
+	const offset = document.offsetAt(position);
+	const context = getCursorContext(text, offset);
+	if (context.kind === 'comment') {
+		return [];
+	}
+	if (context.kind === 'string') {
+		return getStringCompletions(document, position, context);
+	}
+
+	const constantKind = getArgumentConstantKind(text, offset, visible);
+	if (constantKind) {
+		return BUILTIN_CONSTANTS.filter(constant => constant.kind === constantKind).map(constant => ({
+			label: constant.name,
+			kind: constantKind === 'color' ? CompletionItemKind.Color : CompletionItemKind.Constant,
+			detail: constant.description,
+			// Color items show a swatch when the documentation is the CSS color
+			documentation: constant.color,
+		}));
+	}
+
+	const completions: CompletionItem[] = [];
+	const declared = new Set<string>();
+	for (const binding of visible) {
+		declared.add(symbolKey(binding.name));
+		completions.push({
+			label: binding.name,
+			kind: binding.kind === 'function' ? CompletionItemKind.Function : CompletionItemKind.Variable,
+			detail: binding.info,
+			sortText: `${getBindingSortGroup(document.uri, binding)}${binding.name}`,
+		});
+	}
+	for (const fn of BUILTIN_FUNCTIONS) {
+		// Names declared in the document take precedence over the catalog
+		if (declared.has(symbolKey(fn.name))) {
+			continue;
+		}
+		completions.push({
+			label: fn.name,
+			kind: CompletionItemKind.Function,
+			detail: formatSignature(fn),
+			sortText: `${SORT_BUILTIN_FUNCTION}${fn.name}`,
+			data: { builtin: fn.name },
+		});
+	}
+	for (const constant of BUILTIN_CONSTANTS) {
+		if (!declared.has(symbolKey(constant.name))) {
+			completions.push({
+				label: constant.name,
+				kind: CompletionItemKind.Constant,
+				detail: constant.description,
+				sortText: `${SORT_BUILTIN_CONSTANT}${constant.name}`,
+			});
+		}
+	}
+	completions.push(...getSnippetCompletions());
+	return completions;
+}
@@ -0,0 +1,229 @@
+import type { AnyNode, Program } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import { getBuiltinConstant } from './builtins';
+import { forEachChild } from './util';
+
+export interface ConstantValue {
+	value: number | string;
+	// Computed from the default of a Param*() call, so the user can change it
+	fromParam: boolean;
+}
+
+export interface ConstantEvaluation {
+	// Value of each expression node that is a constant
+	expressions: Map<AnyNode, ConstantValue>;
+	// Value of each identifier occurrence that holds a constant, by its start offset in the text
+	identifiers: Map<number, ConstantValue>;
+}
+
+// Param*() functions whose second argument is the value the formula gets by default
+const PARAM_FUNCTIONS = new Set(['param', 'paramcolor', 'paramstyle', 'paramtoggle', 'paramstr']);
+
+const LOOP_STATEMENTS = new Set<string>([
+	AST_NODE_TYPES.ForStatement,
+	AST_NODE_TYPES.WhileStatement,
+	AST_NODE_TYPES.DoWhileStatement,
+]);
+
+// Statements whose body may not run, so an assignment inside leaves the variable unknown
+const CONDITIONAL_STATEMENTS = new Set<string>([
+	...LOOP_STATEMENTS,
+	AST_NODE_TYPES.IfStatement,
+	AST_NODE_TYPES.SwitchStatement,
+]);
+
+interface EvalContext {
+	result: ConstantEvaluation;
+	// Lower-case variable name to its value at the current point of the walk, null when not constant
+	env: Map<string, ConstantValue | null>;
+}
+
+/**
+ * Formats a value the way AmiBroker prints it, without the rounding noise of floating point
+ * (0.1 + 0.2 is shown as 0.3).
+ */
+export function formatConstant(value: number | string): string {
+	return typeof value === 'string' ? JSON.stringify(value) : String(Number(value.toPrecision(10)));
+}
+
+function applyBinary(operator: string, left: number | string, right: number | string): number | string | null {
+	if (typeof left === 'string' || typeof right === 'string') {
+		if (typeof left === 'string' && typeof right === 'string') {
+			switch (operator) {
+				case '+': return left + right;
+				case '==': return Number(left === right);
+				case '!=': return Number(left !== right);
+			}
+		}
+		return null;
+	}
+	switch (operator) {
+		case '+': return left + right;
+		case '-': return left - right;
+		case '*': return left * right;
+		// Division by zero is reported by the invalid-constant rule, the result is not folded
+		case '/': return right === 0 ? null : left / right;
+		case '%': return right === 0 ? null : left % right;
+		// `^` raises to a power in AFL
+		case '^': return left ** right;
+		case '==': return Number(left === right);
+		case '!=': return Number(left !== right);
+		case '<': return Number(left < right);
+		case '<=': return Number(left <= right);
+		case '>': return Number(left > right);
+		case '>=': return Number(left >= right);
+		case '&&': return Number(left !== 0 && right !== 0);
+		case '||': return Number(left !== 0 || right !== 0);
+		case '&': return left & right;
+		case '|': return left | right;
+		default: return null;
+	}
+}
+
+function record(ctx: EvalContext, node: AnyNode, value: number | string | null, fromParam: boolean): ConstantValue | null {
+	if (value === null || (typeof value === 'number' && !Number.isFinite(value))) {
+		return null;
+	}
+	const constant = { value, fromParam };
+	ctx.result.expressions.set(node, constant);
+	if (node.type === AST_NODE_TYPES.Identifier) {
+		ctx.result.identifiers.set(node.start, constant);
+	}
+	return constant;
+}
+
+function assignValue(ctx: EvalContext, target: AnyNode, value: ConstantValue | null, conditional: boolean): void {
+	if (target.type === AST_NODE_TYPES.Identifier) {
+		const key = target.name.toLowerCase();
+		const previous = ctx.env.get(key);
+		// A branch that may not run only keeps a value both paths agree on
+		const next = conditional && (previous?.value !== value?.value) ? null : value;
+		ctx.env.set(key, next);
+		if (next) {
+			record(ctx, target, next.value, next.fromParam);
+		}
+	} else if (target.type === AST_NODE_TYPES.MemberExpression) {
+		// Writing one element turns the variable into an array
+		evaluateExpression(ctx, target.property as AnyNode, conditional);
+		assignValue(ctx, target.object as AnyNode, null, false);
+	} else {
+		evaluateExpression(ctx, target, conditional);
+	}
+}
+
+function evaluateExpression(ctx: EvalContext, node: AnyNode, conditional: boolean): ConstantValue | null {
+	switch (node.type) {
+		case AST_NODE_TYPES.Literal:
+			return typeof node.value === 'number' || typeof node.value === 'string'
+				? record(ctx, node, node.value, false)
+				: null;
+
+		case AST_NODE_TYPES.Identifier: {
+			const key = node.name.toLowerCase();
+			if (ctx.env.has(key)) {
+				const value = ctx.env.get(key);
+				return value ? record(ctx, node, value.value, value.fromParam) : null;
+			}
+			if (key === 'true' || key === 'false') {
+				return record(ctx, node, Number(key === 'true'), false);
+			}
+			const constant = getBuiltinConstant(node.name);
+			return constant ? record(ctx, node, constant.value, false) : null;
+		}
+
+		case AST_NODE_TYPES.AssignmentExpression: {
+			let value = evaluateExpression(ctx, node.right, conditional);
+			if (node.operator !== '=') {
+				const previous = evaluateExpression(ctx, node.left as AnyNode, conditional);
+				const result = previous && value ? applyBinary(node.operator.slice(0, -1), previous.value, value.value) : null;
+				value = result === null ? null : { value: result, fromParam: previous!.fromParam || value!.fromParam };
+			}
+			assignValue(ctx, node.left as AnyNode, value, conditional);
+			return value ? record(ctx, node, value.value, value.fromParam) : null;
+		}
+
+		case AST_NODE_TYPES.UpdateExpression:
+			evaluateExpression(ctx, node.argument, conditional);
+			assignValue(ctx, node.argument, null, false);
+			return null;
+
+		case AST_NODE_TYPES.BinaryExpression:
+		case AST_NODE_TYPES.LogicalExpression: {
+			const left = evaluateExpression(ctx, node.left as AnyNode, conditional);
+			const right = evaluateExpression(ctx, node.right, conditional);
+			if (!left || !right) {
+				return null;
+			}
+			return record(ctx, node, applyBinary(node.operator, left.value, right.value), left.fromParam || right.fromParam);
+		}
+
+		case AST_NODE_TYPES.UnaryExpression: {
+			const argument = evaluateExpression(ctx, node.argument, conditional);
+			if (!argument || typeof argument.value !== 'number') {
+				return null;
+			}
+			const value = node.operator === '-' ? -argument.value
+				: node.operator === '+' ? argument.value
+					: node.operator === '!' ? Number(argument.value === 0) : null;
+			return record(ctx, node, value, argument.fromParam);
+		}
+
+		case AST_NODE_TYPES.CallExpression: {
+			const args = node.arguments.map(arg => evaluateExpression(ctx, arg as AnyNode, conditional));
+			if (node.callee.type === AST_NODE_TYPES.Identifier && PARAM_FUNCTIONS.has(node.callee.name.toLowerCase()) && args[1]) {
+				return record(ctx, node, args[1].value, true);
+			}
+			return null;
+		}
+
+		default:
+			forEachChild(node, child => evaluateExpression(ctx, child, conditional));
+			return null;
+	}
+}
+
+// Names assigned anywhere in a statement, which a loop may change before any of its iterations
+function collectAssignedNames(node: AnyNode, names: Set<string>): void {
+	if (node.type === AST_NODE_TYPES.AssignmentExpression || node.type === AST_NODE_TYPES.UpdateExpression) {
+		const target = (node.type === AST_NODE_TYPES.AssignmentExpression ? node.left : node.argument) as AnyNode;
+		const variable = target.type === AST_NODE_TYPES.MemberExpression ? target.object as AnyNode : target;
+		if (variable.type === AST_NODE_TYPES.Identifier) {
+			names.add(variable.name.toLowerCase());
+		}
+	}
+	forEachChild(node, child => collectAssignedNames(child, names));
+}
+
+function evaluateStatement(ctx: EvalContext, node: AnyNode, conditional: boolean): void {
+	if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+		// Functions only see their parameters and locals, none of which is known
+		evaluateStatement({ result: ctx.result, env: new Map() }, node.body, false);
+		return;
+	}
+	if (node.type.endsWith('Expression') || node.type === AST_NODE_TYPES.Identifier || node.type === AST_NODE_TYPES.Literal) {
+		evaluateExpression(ctx, node, conditional);
+		return;
+	}
+	if (node.type === AST_NODE_TYPES.VariableDeclarator) {
+		assignValue(ctx, node.id as AnyNode, node.init ? evaluateExpression(ctx, node.init, conditional) : null, conditional);
+		return;
+	}
+	if (LOOP_STATEMENTS.has(node.type)) {
+		const assigned = new Set<string>();
+		collectAssignedNames(node, assigned);
+		assigned.forEach(name => ctx.env.set(name, null));
+	}
+	const childConditional = conditional || CONDITIONAL_STATEMENTS.has(node.type);
+	forEachChild(node, child => evaluateStatement(ctx, child, childConditional));
+}
+
+/**
+ * Folds the constant expressions of a formula: literals, built-in constants, the defaults of
+ * Param*() calls, and arithmetic, comparisons and string concatenation on them. Variables keep
+ * their value until an assignment that is not constant, or that may not run, replaces it.
+ */
+export function evaluateConstants(ast: Program): ConstantEvaluation {
+	const result: ConstantEvaluation = { expressions: new Map(), identifiers: new Map() };
+	evaluateStatement({ result, env: new Map() }, ast, false);
+	return result;
+}
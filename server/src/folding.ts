@@ -0,0 +1,57 @@
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver';
+import type { AnyNode } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import { tokenize } from './lexer';
+import { forEachChild } from './util';
+
+/**
+ * Computes folding ranges for sections, braces, function bodies and block comments.
+ * Sections, braces and comments come from the tokens, so they still fold while the
+ * document has syntax errors; the AST only adds function bodies.
+ */
+export function getFoldingRanges(text: string, ast: AnyNode | null): FoldingRange[] {
+	const ranges: FoldingRange[] = [];
+	const braces: number[] = [];
+	const sections: number[] = [];
+
+	for (const token of tokenize(text)) {
+		if (token.type === 'blockComment') {
+			const endLine = token.line + token.value.split('\n').length - 1;
+			if (endLine > token.line) {
+				ranges.push(FoldingRange.create(token.line, endLine, undefined, undefined, FoldingRangeKind.Comment));
+			}
+		} else if (token.value === '{') {
+			braces.push(token.line);
+		} else if (token.value === '}') {
+			const startLine = braces.pop();
+			// Keep the closing brace visible
+			if (startLine !== undefined && token.line - 1 > startLine) {
+				ranges.push(FoldingRange.create(startLine, token.line - 1));
+			}
+		} else if (token.type === 'identifier' && token.value.toUpperCase() === '_SECTION_BEGIN') {
+			sections.push(token.line);
+		} else if (token.type === 'identifier' && token.value.toUpperCase() === '_SECTION_END') {
+			const startLine = sections.pop();
+			if (startLine !== undefined && token.line > startLine) {
+				ranges.push(FoldingRange.create(startLine, token.line, undefined, undefined, FoldingRangeKind.Region));
+			}
+		}
+	}
+
+	// Fold functions from their header, which may be on the line before the opening brace
+	const visit = (node: AnyNode) => {
+		if (node.type === AST_NODE_TYPES.FunctionDeclaration && node.loc) {
+			const startLine = node.loc.start.line - 1;
+			const endLine = node.loc.end.line - 2;
+			if (endLine > startLine && !ranges.some(range => range.startLine === startLine)) {
+				ranges.push(FoldingRange.create(startLine, endLine));
+			}
+		}
+		forEachChild(node, visit);
+	};
+	if (ast) {
+		visit(ast);
+	}
+
+	return ranges.sort((a, b) => a.startLine - b.startLine);
+}
@@ -0,0 +1,300 @@
+import { FormattingOptions, Range, TextEdit } from 'vscode-languageserver';
+import { Token, tokenize } from './lexer';
+
+export interface FormatSettings {
+	// `MA( C, 10 )` instead of `MA(C, 10)`
+	spaceInsideParentheses: boolean;
+	// `a + b` instead of `a+b`
+	spaceAroundOperators: boolean;
+	// Where the opening brace of a block goes; `preserve` leaves it where it is
+	braceStyle: 'preserve' | 'sameLine' | 'nextLine';
+	// Indent the code between _SECTION_BEGIN and _SECTION_END
+	indentSections: boolean;
+}
+
+export const defaultFormatSettings: FormatSettings = {
+	spaceInsideParentheses: true,
+	spaceAroundOperators: true,
+	braceStyle: 'preserve',
+	indentSections: false,
+};
+
+interface FormatLine {
+	tokens: Token[];
+	// Text of a line inside a multi-line comment, which is kept as written
+	verbatim?: string;
+}
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch']);
+const UNARY_OPERATORS = new Set(['-', '+', '!', '~']);
+
+/**
+ * Formats the whole document. Returns a single edit replacing the text, or none
+ * when the document is already formatted.
+ */
+export function formatDocument(text: string, options: FormattingOptions, settings: FormatSettings): TextEdit[] {
+	let lines = splitLines(text);
+	if (settings.braceStyle !== 'preserve') {
+		lines = placeBraces(lines, settings.braceStyle);
+	}
+
+	const eol = text.includes('\r\n') ? '\r\n' : '\n';
+	const formatted = renderLines(lines, options, settings).join(eol);
+	if (formatted === text) {
+		return [];
+	}
+	const original = text.split(/\r?\n/);
+	const lastLine = original.length - 1;
+	return [TextEdit.replace(Range.create(0, 0, lastLine, original[lastLine].length), formatted)];
+}
+
+/**
+ * Formats the lines touched by `range`. Indentation is still computed from the start of
+ * the document; braces are never moved since that would change lines outside the range.
+ */
+export function formatRange(text: string, range: Range, options: FormattingOptions, settings: FormatSettings): TextEdit[] {
+	const original = text.split(/\r?\n/);
+	const formatted = renderLines(splitLines(text), options, settings);
+
+	const edits: TextEdit[] = [];
+	const lastLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+	for (let line = range.start.line; line <= Math.min(lastLine, original.length - 1); line++) {
+		if (formatted[line] !== original[line]) {
+			edits.push(TextEdit.replace(Range.create(line, 0, line, original[line].length), formatted[line]));
+		}
+	}
+	return edits;
+}
+
+function splitLines(text: string): FormatLine[] {
+	const rawLines = text.split(/\r?\n/);
+	const lines: FormatLine[] = rawLines.map(() => ({ tokens: [] }));
+	for (const token of tokenize(text)) {
+		lines[token.line].tokens.push(token);
+
+		// Lines after the first one of a block comment are kept as written
+		const extraLines = token.value.split('\n').length - 1;
+		for (let i = 1; i <= extraLines; i++) {
+			lines[token.line + i].verbatim = rawLines[token.line + i].trimEnd();
+		}
+	}
+	return lines;
+}
+
+function isComment(token: Token | undefined): boolean {
+	return token?.type === 'lineComment' || token?.type === 'blockComment';
+}
+
+function lastCodeToken(tokens: Token[]): Token | undefined {
+	for (let i = tokens.length - 1; i >= 0; i--) {
+		if (!isComment(tokens[i])) {
+			return tokens[i];
+		}
+	}
+	return undefined;
+}
+
+function placeBraces(lines: FormatLine[], style: 'sameLine' | 'nextLine'): FormatLine[] {
+	const result: FormatLine[] = [];
+	for (const line of lines) {
+		const tokens = line.tokens;
+		if (line.verbatim !== undefined || tokens.length === 0) {
+			result.push(line);
+			continue;
+		}
+
+		if (style === 'sameLine' && tokens[0].value === '{') {
+			// Join `{` to the header on the previous line, unless a comment or statement ends it
+			const previous = result[result.length - 1];
+			const last = previous?.tokens[previous.tokens.length - 1];
+			if (previous && previous.verbatim === undefined && last && !isComment(last)
+				&& (last.value === ')' || ['else', 'do'].includes(last.value.toLowerCase()))) {
+				previous.tokens = [...previous.tokens, ...tokens];
+				continue;
+			}
+		}
+
+		if (style === 'nextLine') {
+			// Move a trailing `{` (and any comment after it) to its own line
+			const braceIndex = tokens.findIndex((token, i) => token.value === '{' && tokens.slice(i + 1).every(isComment));
+			if (braceIndex > 0) {
+				result.push({ tokens: tokens.slice(0, braceIndex) });
+				result.push({ tokens: tokens.slice(braceIndex) });
+				continue;
+			}
+		}
+		result.push(line);
+	}
+	return result;
+}
+
+function isOperand(token: Token | undefined): boolean {
+	if (!token) {
+		return false;
+	}
+	return token.type === 'identifier' || token.type === 'number' || token.type === 'string'
+		|| token.value === ')' || token.value === ']';
+}
+
+// A prefix operator (`-x`, `!x`, `++i`) is one that does not follow an operand
+function isPrefixOperator(token: Token, previous: Token | undefined): boolean {
+	return (UNARY_OPERATORS.has(token.value) || token.value === '++' || token.value === '--') && !isOperand(previous);
+}
+
+function spaceBetween(tokens: Token[], index: number, settings: FormatSettings): string {
+	const previous = tokens[index - 1];
+	const current = tokens[index];
+	const beforePrevious = tokens[index - 2];
+	const inside = settings.spaceInsideParentheses ? ' ' : '';
+	const around = settings.spaceAroundOperators ? ' ' : '';
+
+	if (isComment(current)) {
+		return ' ';
+	}
+	if (previous.value === '(' && current.value === ')') {
+		return '';
+	}
+	if (previous.value === '(') {
+		return inside;
+	}
+	if (current.value === ')') {
+		return inside;
+	}
+	if (previous.value === '[' || current.value === ']') {
+		return '';
+	}
+	if (current.value === ',' || current.value === ';') {
+		return '';
+	}
+	if (previous.value === ',' || previous.value === ';') {
+		return ' ';
+	}
+	if (previous.value === '.' || current.value === '.') {
+		return '';
+	}
+	if (current.value === '(') {
+		// Calls hug the name, control keywords get a space: `MA( C, 10 )`, `if ( x )`
+		return previous.type === 'identifier' ? '' : ' ';
+	}
+	if (current.value === '[') {
+		return isOperand(previous) ? '' : ' ';
+	}
+	if ((current.value === '++' || current.value === '--') && isOperand(previous)) {
+		return '';
+	}
+	if (previous.type === 'operator' && isPrefixOperator(previous, beforePrevious)) {
+		return '';
+	}
+	if (current.value === ':' && tokens.slice(0, index).some(token => token.value === 'case' || token.value === 'default')) {
+		return '';
+	}
+	if (current.type === 'operator' || previous.type === 'operator') {
+		return around;
+	}
+	return ' ';
+}
+
+function renderTokens(tokens: Token[], settings: FormatSettings): string {
+	let result = '';
+	tokens.forEach((token, index) => {
+		if (index > 0) {
+			result += spaceBetween(tokens, index, settings);
+		}
+		// The rest of a multi-line comment is emitted by the following verbatim lines
+		result += token.type === 'blockComment' ? token.value.split(/\r?\n/)[0].trimEnd() : token.value;
+	});
+	return result;
+}
+
+// `if ( x )`, `for ( ... )`, `else` or `do` with the statement on the next line
+function isHeaderWithoutBody(tokens: Token[]): boolean {
+	const code = tokens.filter(token => !isComment(token));
+	const start = code[0]?.value === '}' ? 1 : 0;
+	const first = code[start];
+	const last = code[code.length - 1];
+	if (!first || !last) {
+		return false;
+	}
+	const keyword = first.value.toLowerCase();
+	if ((keyword === 'else' || keyword === 'do') && last === first) {
+		return true;
+	}
+	const isControl = CONTROL_KEYWORDS.has(keyword) || (keyword === 'else' && code[start + 1]?.value.toLowerCase() === 'if');
+	return isControl && last.value === ')';
+}
+
+function isSectionCall(token: Token | undefined, name: string): boolean {
+	return token?.type === 'identifier' && token.value.toUpperCase() === name;
+}
+
+function renderLines(lines: FormatLine[], options: FormattingOptions, settings: FormatSettings): string[] {
+	const unit = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+	const output: string[] = [];
+	let braceDepth = 0;
+	let parenDepth = 0;
+	let sectionDepth = 0;
+	// Extra indentation for the body of an `if`/`for`/`while`/`else` written without braces
+	let pendingIndent = 0;
+
+	const countBrackets = (tokens: Token[]) => {
+		for (const token of tokens) {
+			if (token.value === '{') {
+				braceDepth++;
+			} else if (token.value === '}') {
+				braceDepth = Math.max(braceDepth - 1, 0);
+			} else if (token.value === '(' || token.value === '[') {
+				parenDepth++;
+			} else if (token.value === ')' || token.value === ']') {
+				parenDepth = Math.max(parenDepth - 1, 0);
+			}
+		}
+	};
+
+	for (const line of lines) {
+		if (line.verbatim !== undefined) {
+			output.push(line.verbatim);
+			// Code after the end of the comment, as in `*/ }`, still opens and closes blocks
+			countBrackets(line.tokens);
+			continue;
+		}
+		const tokens = line.tokens;
+		if (tokens.length === 0) {
+			output.push('');
+			continue;
+		}
+
+		const first = tokens[0];
+		let level = braceDepth + sectionDepth;
+		if (first.value === '}') {
+			level--;
+		}
+		const endsSection = settings.indentSections && isSectionCall(first, '_SECTION_END');
+		if (endsSection) {
+			level--;
+		}
+		if (parenDepth > 0) {
+			level++;
+		}
+		const extra = first.value === '{' ? 0 : pendingIndent;
+		level += extra;
+
+		const text = first.type === 'preprocessor' ? first.value.trim() : renderTokens(tokens, settings);
+		output.push(unit.repeat(Math.max(level, 0)) + text);
+		countBrackets(tokens);
+		if (settings.indentSections && isSectionCall(first, '_SECTION_BEGIN')) {
+			sectionDepth++;
+		}
+		if (endsSection) {
+			sectionDepth = Math.max(sectionDepth - 1, 0);
+		}
+
+		// Comment-only lines do not end a braceless body
+		if (!tokens.every(isComment)) {
+			pendingIndent = isHeaderWithoutBody(tokens) ? extra + 1 : 0;
+		}
+		if (lastCodeToken(tokens)?.value === '{') {
+			pendingIndent = 0;
+		}
+	}
+	return output;
+}
@@ -0,0 +1,165 @@
+import { Range } from 'vscode-languageserver';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+export interface IncludeDirective {
+	// Path as written, with AFL string escapes (`\\`) already turned into separators
+	path: string;
+	// `#include <file>` form, resolved against the include root only
+	library: boolean;
+	once: boolean;
+	// Range of the path text, without quotes or angle brackets
+	range: Range;
+}
+
+export interface IncludeProblem {
+	kind: 'unresolved' | 'circular';
+	message: string;
+	range: Range;
+}
+
+export interface IncludeLink {
+	range: Range;
+	target: string;
+}
+
+export interface IncludeGraph {
+	// URIs of every file included directly or indirectly, in include order
+	documents: string[];
+	// Problems found anywhere in the include tree, reported on the directive of the root document
+	problems: IncludeProblem[];
+	links: IncludeLink[];
+}
+
+// Reads the text of a document, preferring the editor buffer over the file on disk
+export type TextReader = (uri: string) => string | null;
+
+const includePattern = /^(\s*)#include(_once)?\s*(?:"([^"]*)"|<([^>]*)>)/;
+
+export function findIncludeDirectives(text: string): IncludeDirective[] {
+	const directives: IncludeDirective[] = [];
+	const lines = text.split(/\r?\n/);
+	lines.forEach((line, lineNum) => {
+		const match = includePattern.exec(line);
+		if (!match) {
+			return;
+		}
+		const library = match[4] !== undefined;
+		const raw = library ? match[4] : match[3];
+		const start = line.indexOf(library ? '<' : '"', match[1].length) + 1;
+		directives.push({
+			path: raw.replace(/\\\\/g, '/').replace(/\\/g, '/'),
+			library,
+			once: match[2] !== undefined,
+			range: Range.create(lineNum, start, lineNum, start + raw.length),
+		});
+	});
+	return directives;
+}
+
+export function uriToPath(uri: string): string | null {
+	try {
+		return fileURLToPath(uri);
+	} catch {
+		return null;
+	}
+}
+
+export function pathToUri(filePath: string): string {
+	return pathToFileURL(filePath).toString();
+}
+
+/**
+ * Resolves a directive to a file path. Quoted paths are tried relative to the including
+ * file first and then to the include root; `<...>` paths only against the include root.
+ */
+export function resolveIncludePath(directive: IncludeDirective, documentUri: string, includeRoot: string): string | null {
+	const candidates: string[] = [];
+	if (path.isAbsolute(directive.path) || /^[A-Za-z]:\//.test(directive.path)) {
+		candidates.push(directive.path);
+	} else {
+		const documentPath = uriToPath(documentUri);
+		if (!directive.library && documentPath) {
+			candidates.push(path.resolve(path.dirname(documentPath), directive.path));
+		}
+		if (includeRoot) {
+			candidates.push(path.resolve(includeRoot, directive.path));
+		}
+	}
+	return candidates.find(candidate => fs.existsSync(candidate)) ?? null;
+}
+
+export function readFileText(uri: string): string | null {
+	const filePath = uriToPath(uri);
+	if (!filePath) {
+		return null;
+	}
+	try {
+		return fs.readFileSync(filePath, 'utf8');
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Walks the include tree of a document, collecting included files, unresolved
+ * directives and include cycles.
+ */
+export function resolveIncludeGraph(uri: string, text: string, includeRoot: string, readText: TextReader): IncludeGraph {
+	const graph: IncludeGraph = { documents: [], problems: [], links: [] };
+	const included = new Set<string>();
+
+	const visit = (currentUri: string, currentText: string, stack: string[], rootRange: Range | null) => {
+		for (const directive of findIncludeDirectives(currentText)) {
+			const range = rootRange ?? directive.range;
+			const resolved = resolveIncludePath(directive, currentUri, includeRoot);
+			if (!resolved) {
+				// Problems inside included files are reported once they are opened themselves
+				if (!rootRange) {
+					graph.problems.push({ kind: 'unresolved', message: `Cannot resolve include '${directive.path}'`, range });
+				}
+				continue;
+			}
+
+			const targetUri = pathToUri(resolved);
+			if (!rootRange) {
+				graph.links.push({ range: directive.range, target: targetUri });
+			}
+
+			const cycleStart = stack.findIndex(entry => samePath(entry, targetUri));
+			// `#include_once` guards against cycles the same way a header guard does
+			if (cycleStart !== -1 && directive.once) {
+				continue;
+			}
+			if (cycleStart !== -1) {
+				const chain = [...stack.slice(cycleStart), targetUri].map(entry => path.basename(uriToPath(entry) ?? entry));
+				graph.problems.push({ kind: 'circular', message: `Circular include: ${chain.join(' -> ')}`, range });
+				continue;
+			}
+			if (included.has(targetUri)) {
+				continue;
+			}
+
+			const targetText = readText(targetUri);
+			if (targetText === null) {
+				if (!rootRange) {
+					graph.problems.push({ kind: 'unresolved', message: `Cannot read include '${directive.path}'`, range });
+				}
+				continue;
+			}
+			included.add(targetUri);
+			graph.documents.push(targetUri);
+			visit(targetUri, targetText, [...stack, targetUri], range);
+		}
+	};
+
+	visit(uri, text, [uri], null);
+	return graph;
+}
+
+function samePath(a: string, b: string): boolean {
+	const pathA = uriToPath(a);
+	const pathB = uriToPath(b);
+	return pathA !== null && pathB !== null ? path.resolve(pathA) === path.resolve(pathB) : a === b;
+}
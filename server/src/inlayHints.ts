@@ -0,0 +1,117 @@
+import { InlayHint, InlayHintKind, Position, Range } from 'vscode-languageserver';
+import type { AnyNode } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import { formatConstant } from './constants';
+import { DocumentAnalysis, getConstants, getTypes } from './analysis';
+import { Scope } from './symbolTable';
+import { forEachChild, nodeRange } from './util';
+
+export interface InlayHintSettings {
+	// `Plot( C, name: "Close", ... )` before positional arguments
+	parameterNames: boolean;
+	// `Fast: array = MA( C, 10 );` after the first assignment of a variable
+	inferredTypes: boolean;
+	// `Threshold = Period * 2 = 28` after assignments of constant expressions
+	constantValues: boolean;
+}
+
+export const defaultInlayHintSettings: InlayHintSettings = {
+	parameterNames: true,
+	inferredTypes: false,
+	constantValues: false,
+};
+
+// Parameter names of the function called as `name` at `position`, null when it is unknown
+export type ParameterLookup = (name: string, position: Position) => string[] | null;
+
+function positionKey(position: Position): string {
+	return `${position.line}:${position.character}`;
+}
+
+function isBefore(a: Position, b: Position): boolean {
+	return a.line < b.line || (a.line === b.line && a.character < b.character);
+}
+
+function overlaps(node: Range, range: Range): boolean {
+	return !isBefore(node.end, range.start) && !isBefore(range.end, node.start);
+}
+
+function collectDeclarations(scope: Scope, declarations: Set<string>): void {
+	for (const binding of scope.bindings.values()) {
+		if (binding.kind === 'variable' && binding.scope === scope) {
+			declarations.add(positionKey(binding.loc.range.start));
+		}
+	}
+	scope.children.forEach(child => collectDeclarations(child, declarations));
+}
+
+function isLiteral(node: AnyNode): boolean {
+	return node.type === AST_NODE_TYPES.Literal
+		|| (node.type === AST_NODE_TYPES.UnaryExpression && node.argument.type === AST_NODE_TYPES.Literal);
+}
+
+/**
+ * Computes the hints shown inside `range`: parameter names before the arguments of calls
+ * to built-in and user functions, the inferred type of each variable where it is first
+ * assigned, and the computed value of assignments of constant expressions. An argument
+ * that is a variable of the same name gets no hint.
+ */
+export function getInlayHints(
+	analysis: DocumentAnalysis,
+	range: Range,
+	settings: InlayHintSettings,
+	lookupParameters: ParameterLookup
+): InlayHint[] {
+	const { ast, symbols: table } = analysis;
+	if (!ast || (!settings.parameterNames && !settings.inferredTypes && !settings.constantValues)) {
+		return [];
+	}
+
+	const types = settings.inferredTypes ? getTypes(analysis) : null;
+	const constants = settings.constantValues ? getConstants(analysis) : null;
+	const declarations = new Set<string>();
+	collectDeclarations(table.root, declarations);
+
+	const hints: InlayHint[] = [];
+	const visit = (node: AnyNode) => {
+		if (!node.loc || !overlaps(nodeRange(node), range)) {
+			return;
+		}
+
+		if (settings.parameterNames && node.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier) {
+			const params = lookupParameters(node.callee.name, nodeRange(node.callee).start) ?? [];
+			node.arguments.forEach((arg, index) => {
+				const name = params[index];
+				const sameName = arg.type === AST_NODE_TYPES.Identifier && arg.name.toLowerCase() === name?.toLowerCase();
+				if (name && !sameName) {
+					hints.push({
+						position: nodeRange(arg).start,
+						label: `${name}:`,
+						kind: InlayHintKind.Parameter,
+						paddingRight: true,
+					});
+				}
+			});
+		}
+
+		if (types && node.type === AST_NODE_TYPES.AssignmentExpression && node.left.type === AST_NODE_TYPES.Identifier) {
+			const target = nodeRange(node.left);
+			const type = types.identifiers.get(node.left.start);
+			if (type && type !== 'unknown' && declarations.has(positionKey(target.start))) {
+				hints.push({ position: target.end, label: `: ${type}`, kind: InlayHintKind.Type });
+			}
+		}
+
+		// A literal already shows its value
+		if (constants && node.type === AST_NODE_TYPES.AssignmentExpression && !isLiteral(node.right)) {
+			const constant = constants.expressions.get(node);
+			if (constant) {
+				hints.push({ position: nodeRange(node).end, label: `= ${formatConstant(constant.value)}`, paddingLeft: true });
+			}
+		}
+
+		forEachChild(node, visit);
+	};
+	visit(ast);
+	return hints;
+}
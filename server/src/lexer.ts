@@ -0,0 +1,129 @@
+export type TokenType =
+	| 'identifier'
+	| 'keyword'
+	| 'number'
+	| 'string'
+	| 'lineComment'
+	| 'blockComment'
+	| 'preprocessor'
+	| 'operator'
+	| 'punctuation';
+
+export interface Token {
+	type: TokenType;
+	value: string;
+	// Offsets into the lexed text
+	start: number;
+	end: number;
+	// Zero-based line the token starts on
+	line: number;
+}
+
+export const KEYWORDS = new Set([
+	'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+	'function', 'procedure', 'local', 'global', 'static', 'and', 'or', 'not', 'typeof',
+]);
+
+// Longest operators first so that `>=` is not read as `>` followed by `=`
+const OPERATORS = [
+	'==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>',
+	'+', '-', '*', '/', '%', '=', '<', '>', '!', '?', ':', '^', '&', '|', '~', '.',
+];
+
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', ',', ';']);
+
+/**
+ * Splits AFL source into tokens. Whitespace is dropped; unterminated strings and
+ * comments end at the end of the line or text instead of failing, so the lexer can
+ * be used on code that is being edited.
+ */
+export function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let line = 0;
+	let i = 0;
+	let atLineStart = true;
+
+	const push = (type: TokenType, start: number, end: number) => {
+		const value = text.slice(start, end);
+		tokens.push({ type, value, start, end, line });
+		line += value.split('\n').length - 1;
+		atLineStart = false;
+	};
+
+	while (i < text.length) {
+		const ch = text[i];
+
+		if (ch === '\n') {
+			line++;
+			i++;
+			atLineStart = true;
+			continue;
+		}
+		if (ch === ' ' || ch === '\t' || ch === '\r') {
+			i++;
+			continue;
+		}
+
+		if (ch === '/' && text[i + 1] === '/') {
+			const end = findLineEnd(text, i);
+			push('lineComment', i, end);
+			i = end;
+			continue;
+		}
+		if (ch === '/' && text[i + 1] === '*') {
+			const close = text.indexOf('*/', i + 2);
+			const end = close === -1 ? text.length : close + 2;
+			push('blockComment', i, end);
+			i = end;
+			continue;
+		}
+		if (ch === '#' && atLineStart) {
+			const end = findLineEnd(text, i);
+			push('preprocessor', i, end);
+			i = end;
+			continue;
+		}
+		if (ch === '"') {
+			let j = i + 1;
+			while (j < text.length && text[j] !== '"' && text[j] !== '\n') {
+				j += text[j] === '\\' ? 2 : 1;
+			}
+			const end = text[j] === '"' ? j + 1 : Math.min(j, text.length);
+			push('string', i, end);
+			i = end;
+			continue;
+		}
+
+		const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(i, i + 64));
+		if (number) {
+			push('number', i, i + number[0].length);
+			i += number[0].length;
+			continue;
+		}
+
+		const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i, i + 256));
+		if (word) {
+			push(KEYWORDS.has(word[0].toLowerCase()) ? 'keyword' : 'identifier', i, i + word[0].length);
+			i += word[0].length;
+			continue;
+		}
+
+		if (PUNCTUATION.has(ch)) {
+			push('punctuation', i, i + 1);
+			i++;
+			continue;
+		}
+
+		const operator = OPERATORS.find(op => text.startsWith(op, i)) ?? ch;
+		push('operator', i, i + operator.length);
+		i += operator.length;
+	}
+	return tokens;
+}
+
+function findLineEnd(text: string, from: number): number {
+	const newline = text.indexOf('\n', from);
+	const end = newline === -1 ? text.length : newline;
+	return text[end - 1] === '\r' ? end - 1 : end;
+}
+
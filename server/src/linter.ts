@@ -0,0 +1,74 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TextReader } from './includes';
+import { RuleSeveritySetting, getFixAllEdits, runRules } from './rules';
+import { DocumentSymbolTable, getDocumentTable } from './symbolTable';
+import { DocumentAnalysis, createAnalysis, getIncludes } from './analysis';
+
+export interface LintOptions {
+	// Severity override per rule id, see `rules` in ./rules
+	rules: Partial<Record<string, RuleSeveritySetting>>;
+	// Folder used to resolve `#include <file>` directives
+	includeRoot: string;
+	readText: TextReader;
+	maxProblems?: number;
+}
+
+// Passes of `fixText`; a fix overlapping another one is only applied on the next pass
+const MAX_FIX_PASSES = 10;
+
+/**
+ * Computes the diagnostics of a document: syntax errors first, which are not configurable,
+ * then the enabled rules. Shared by the language server and the command-line linter; the
+ * server passes in the cached analysis of the document.
+ */
+export function lintText(
+	uri: string,
+	text: string,
+	options: LintOptions,
+	analysis: DocumentAnalysis = createAnalysis(uri, text)
+): Diagnostic[] {
+	const maxProblems = options.maxProblems ?? Number.POSITIVE_INFINITY;
+	const { ast, errors, symbols } = analysis;
+	const diagnostics: Diagnostic[] = errors.slice(0, maxProblems).map(error => ({
+		severity: DiagnosticSeverity.Error,
+		range: error.range,
+		message: error.message,
+		code: 'syntax-error',
+		source: 'afl-lsp',
+	}));
+
+	const includes = getIncludes(analysis, options.includeRoot, options.readText);
+	const includedTables: DocumentSymbolTable[] = [];
+	for (const includedUri of includes.documents) {
+		// Missing when the file was deleted after the includes were resolved
+		const table = getDocumentTable(includedUri);
+		if (table) {
+			includedTables.push(table);
+		}
+	}
+	diagnostics.push(...runRules(
+		{ uri, text, ast, includes, symbols, includedTables, analysis },
+		options.rules,
+		maxProblems - diagnostics.length
+	));
+	return diagnostics;
+}
+
+/**
+ * Applies the preferred quick-fixes of every diagnostic until none is left, and returns the
+ * fixed text with the diagnostics that remain.
+ */
+export function fixText(uri: string, text: string, options: LintOptions): { text: string; diagnostics: Diagnostic[] } {
+	let diagnostics = lintText(uri, text, options);
+	for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+		const document = TextDocument.create(uri, 'afl', pass, text);
+		const edits = getFixAllEdits(document, diagnostics);
+		if (edits.length === 0) {
+			break;
+		}
+		text = TextDocument.applyEdits(document, edits);
+		diagnostics = lintText(uri, text, options);
+	}
+	return { text, diagnostics };
+}
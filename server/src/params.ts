@@ -0,0 +1,126 @@
+import { Range } from 'vscode-languageserver';
+import type { AnyNode, Expression, Program, SpreadElement } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import { getBuiltinConstant, getBuiltinFunction } from './builtins';
+import { forEachChild, getSectionMarker, nodeRange } from './util';
+
+export type ParamKind = 'Param' | 'ParamColor' | 'ParamToggle' | 'ParamList' | 'ParamStyle'
+	| 'ParamDate' | 'ParamTime' | 'ParamStr' | 'ParamField';
+
+// A literal argument, or the source text of an argument that is not a constant
+export type ParamValue = number | string | null;
+
+export interface ParamInfo {
+	kind: ParamKind;
+	// Null when the label is not a string literal
+	label: string | null;
+	defaultValue: ParamValue;
+	min?: ParamValue;
+	max?: ParamValue;
+	step?: ParamValue;
+	// Choices of ParamList and the two captions of ParamToggle
+	choices?: string[];
+	// CSS color of a ParamColor default given as a color constant
+	color?: string;
+	// Section the call is in, null outside of _SECTION_BEGIN/_SECTION_END
+	section: string | null;
+	range: Range;
+	labelRange: Range;
+}
+
+export interface ParamInventory {
+	uri: string;
+	params: ParamInfo[];
+}
+
+// Request sent by the client to get the parameters of a document
+export const PARAM_INVENTORY_REQUEST = 'afl/paramInventory';
+
+const PARAM_KINDS: ParamKind[] = ['Param', 'ParamColor', 'ParamToggle', 'ParamList', 'ParamStyle',
+	'ParamDate', 'ParamTime', 'ParamStr', 'ParamField'];
+
+const paramKindByName = new Map(PARAM_KINDS.map(kind => [kind.toLowerCase(), kind]));
+
+function evaluate(node: Expression | SpreadElement | undefined, text: string): ParamValue {
+	if (!node) {
+		return null;
+	}
+	if (node.type === AST_NODE_TYPES.Literal && (typeof node.value === 'number' || typeof node.value === 'string')) {
+		return node.value;
+	}
+	if (node.type === AST_NODE_TYPES.UnaryExpression && node.operator === '-'
+		&& node.argument.type === AST_NODE_TYPES.Literal && typeof node.argument.value === 'number') {
+		return -node.argument.value;
+	}
+	return text.slice(node.start, node.end);
+}
+
+// Value of an omitted optional argument, from the built-in catalog
+function defaultArgument(kind: ParamKind, index: number): ParamValue {
+	const value = getBuiltinFunction(kind)?.params[index]?.defaultValue;
+	if (value === undefined) {
+		return null;
+	}
+	return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
+function toParamInfo(kind: ParamKind, args: (Expression | SpreadElement)[], text: string): Omit<ParamInfo, 'section' | 'range'> | null {
+	const labelArg = args[0];
+	if (!labelArg) {
+		return null;
+	}
+	const label = labelArg.type === AST_NODE_TYPES.Literal && typeof labelArg.value === 'string' ? labelArg.value : null;
+	const arg = (index: number) => args[index] ? evaluate(args[index], text) : defaultArgument(kind, index);
+	const info: Omit<ParamInfo, 'section' | 'range'> = { kind, label, defaultValue: arg(1), labelRange: nodeRange(labelArg) };
+
+	switch (kind) {
+		case 'Param':
+			info.min = arg(2);
+			info.max = arg(3);
+			info.step = arg(4);
+			break;
+		case 'ParamToggle':
+		case 'ParamList': {
+			const choices = arg(1);
+			info.choices = typeof choices === 'string' && args[1]?.type === AST_NODE_TYPES.Literal ? choices.split('|') : undefined;
+			info.defaultValue = arg(2);
+			break;
+		}
+		case 'ParamColor':
+			if (typeof info.defaultValue === 'string') {
+				info.color = getBuiltinConstant(info.defaultValue)?.color;
+			}
+			break;
+	}
+	return info;
+}
+
+/**
+ * Lists the Param*() calls of a program in source order, together with the section they
+ * appear in, which is how AmiBroker groups them in the Parameters dialog.
+ */
+export function getParamInventory(ast: Program, text: string): ParamInfo[] {
+	const params: ParamInfo[] = [];
+	let section: string | null = null;
+
+	const visit = (node: AnyNode) => {
+		if (node.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier && node.loc) {
+			const kind = paramKindByName.get(node.callee.name.toLowerCase());
+			const info = kind ? toParamInfo(kind, node.arguments, text) : null;
+			if (info) {
+				params.push({ ...info, section, range: nodeRange(node) });
+			}
+		}
+		forEachChild(node, visit);
+	};
+
+	for (const statement of ast.body) {
+		const marker = getSectionMarker(statement);
+		if (marker) {
+			section = marker.kind === 'begin' ? marker.name : null;
+			continue;
+		}
+		visit(statement);
+	}
+	return params;
+}
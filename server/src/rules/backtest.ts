@@ -0,0 +1,129 @@
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+import type { AnyNode } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import type { AflRule, RuleContext } from './index';
+import { getReservedVariable, isReservedVariable } from '../builtins';
+import type { DocumentSymbolTable } from '../symbolTable';
+import { forEachChild, getAssignedIdentifier, nodeRange } from '../util';
+
+// SetOption() names that make the backtester rank signals by PositionScore
+const RANKING_OPTIONS = new Set(['worstrankheld', 'maxopenpositions']);
+
+interface ReservedAssignment {
+	name: string;
+	range: Range;
+	// Function the assignment is in, null at formula level
+	fn: string | null;
+}
+
+interface SignalUsage {
+	assignments: ReservedAssignment[];
+	// Lower-case names of the functions called anywhere in the formula
+	calls: Set<string>;
+	rankingOptionSet: boolean;
+}
+
+// Positions of the writes that reach a formula-level variable, which inside a function means it was declared `global`
+function formulaLevelWrites(symbols: DocumentSymbolTable): Set<string> {
+	const writes = new Set<string>();
+	for (const ref of symbols.references) {
+		if (ref.access !== 'read' && ref.binding?.scope.kind === 'document') {
+			writes.add(`${ref.range.start.line}:${ref.range.start.character}`);
+		}
+	}
+	return writes;
+}
+
+function collectUsage(ast: AnyNode, symbols: DocumentSymbolTable): SignalUsage {
+	const usage: SignalUsage = { assignments: [], calls: new Set(), rankingOptionSet: false };
+	const globalWrites = formulaLevelWrites(symbols);
+
+	const visit = (node: AnyNode, fn: string | null) => {
+		if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+			forEachChild(node.body, child => visit(child, node.id?.name ?? '(anonymous)'));
+			return;
+		}
+		if (node.type === AST_NODE_TYPES.AssignmentExpression || node.type === AST_NODE_TYPES.UpdateExpression) {
+			const target = getAssignedIdentifier(node.type === AST_NODE_TYPES.AssignmentExpression ? node.left as AnyNode : node.argument);
+			if (target && isReservedVariable(target.name)) {
+				const range = nodeRange(target);
+				const scope = globalWrites.has(`${range.start.line}:${range.start.character}`) ? null : fn;
+				usage.assignments.push({ name: getReservedVariable(target.name) ?? target.name, range, fn: scope });
+			}
+		}
+		if (node.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier) {
+			const name = node.callee.name.toLowerCase();
+			usage.calls.add(name);
+			const option = node.arguments[0];
+			if (name === 'setoption' && option?.type === AST_NODE_TYPES.Literal && typeof option.value === 'string'
+				&& RANKING_OPTIONS.has(option.value.toLowerCase())) {
+				usage.rankingOptionSet = true;
+			}
+		}
+		forEachChild(node, child => visit(child, fn));
+	};
+
+	visit(ast, null);
+	return usage;
+}
+
+/**
+ * Looks for trading-system mistakes in how the backtester variables are set: entries
+ * without exits, PositionScore without a mode that uses it, and signals assigned inside
+ * functions, where they are local and never reach the backtester.
+ */
+export function checkBacktestSignals({ ast, includes, symbols }: RuleContext): Diagnostic[] {
+	if (!ast) {
+		return [];
+	}
+	const usage = collectUsage(ast, symbols);
+	const diagnostics: Diagnostic[] = [];
+	const firstAssignment = (name: string) => usage.assignments.find(assignment => assignment.name === name && assignment.fn === null);
+	const hasApplyStop = usage.calls.has('applystop');
+
+	// Included files can set the exits or the backtest mode, so only a self-contained formula is checked
+	if (includes.documents.length === 0) {
+		const exits: [string, string, string][] = [['Buy', 'Sell', 'long'], ['Short', 'Cover', 'short']];
+		for (const [entry, exit, side] of exits) {
+			const assignment = firstAssignment(entry);
+			if (assignment && !firstAssignment(exit) && !hasApplyStop) {
+				diagnostics.push({
+					severity: DiagnosticSeverity.Warning,
+					range: assignment.range,
+					message: `'${entry}' is assigned but '${exit}' is never set and there is no ApplyStop() call, so ${side} positions are never closed by the formula`,
+				});
+			}
+		}
+
+		const positionScore = firstAssignment('PositionScore');
+		const rotational = usage.calls.has('setbacktestmode') || usage.calls.has('enablerotationaltrading');
+		if (positionScore && !rotational && !usage.rankingOptionSet) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.Warning,
+				range: positionScore.range,
+				message: "'PositionScore' is assigned but the formula never calls SetBacktestMode() or EnableRotationalTrading() "
+					+ "nor limits open positions with SetOption( \"MaxOpenPositions\" ), so the score has no effect on the backtest",
+			});
+		}
+	}
+
+	for (const assignment of usage.assignments) {
+		if (assignment.fn === null) {
+			continue;
+		}
+		diagnostics.push({
+			severity: DiagnosticSeverity.Warning,
+			range: assignment.range,
+			message: `'${assignment.name}' assigned inside function '${assignment.fn}' is a local variable and does not reach AmiBroker; `
+				+ `declare it with 'global ${assignment.name};' or assign the returned value at formula level`,
+		});
+	}
+	return diagnostics;
+}
+
+export const backtestSignalsRule: AflRule = {
+	id: 'backtest-signals',
+	description: 'Trading-system variables must be set consistently for the backtester',
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: checkBacktestSignals,
+};
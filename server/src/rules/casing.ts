@@ -0,0 +1,80 @@
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { AflRule, RuleContext } from './index';
+import { getBuiltinConstant, getBuiltinFunction, getReservedVariable } from '../builtins';
+import { SymbolBinding, forEachBinding, symbolKey } from '../symbolTable';
+
+export interface IdentifierCasingData {
+	casing: string;
+}
+
+/**
+ * Spelling of the declaration a name refers to. Reserved variables keep AmiBroker's
+ * spelling even where the formula assigns them, other names take the one of their binding,
+ * in the document or its includes, and then the one of the built-in catalog.
+ */
+function declaredCasing(name: string, binding: SymbolBinding | null, included: Map<string, SymbolBinding>): string | undefined {
+	return getReservedVariable(name)
+		?? binding?.name
+		?? included.get(symbolKey(name))?.name
+		?? getBuiltinFunction(name)?.name
+		?? getBuiltinConstant(name)?.name;
+}
+
+/**
+ * Reports identifiers spelled with a different casing than their declaration, e.g. `close`
+ * for `Close`. AmiBroker ignores the difference, so the rule is opt-in.
+ */
+export function checkIdentifierCasing({ symbols, includedTables }: RuleContext): Diagnostic[] {
+	const included = new Map<string, SymbolBinding>();
+	for (const table of includedTables) {
+		for (const [key, binding] of table.root.bindings) {
+			if (!included.has(key)) {
+				included.set(key, binding);
+			}
+		}
+	}
+
+	const diagnostics: Diagnostic[] = [];
+	const check = (name: string, range: Range, casing: string | undefined) => {
+		if (casing && casing !== name) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.Hint,
+				range,
+				message: `'${name}' is declared as '${casing}'`,
+				data: { casing } satisfies IdentifierCasingData,
+			});
+		}
+	};
+
+	// Only reserved variables can be misspelled where they are declared
+	forEachBinding(symbols.root, binding => check(binding.name, binding.loc.range, getReservedVariable(binding.name)));
+	for (const ref of symbols.references) {
+		check(ref.name, ref.range, declaredCasing(ref.name, ref.binding, included));
+	}
+	return diagnostics;
+}
+
+export function fixIdentifierCasing(document: TextDocument, diagnostic: Diagnostic): CodeAction | undefined {
+	const casing = (diagnostic.data as IdentifierCasingData | undefined)?.casing;
+	if (!casing) {
+		return undefined;
+	}
+	return {
+		title: `Change to '${casing}'`,
+		kind: CodeActionKind.QuickFix,
+		diagnostics: [diagnostic],
+		// Only the casing changes, so the formula computes the same thing
+		isPreferred: true,
+		edit: { changes: { [document.uri]: [TextEdit.replace(diagnostic.range, casing)] } },
+	};
+}
+
+export const identifierCasingRule: AflRule = {
+	id: 'identifier-casing',
+	description: 'Identifiers should use the casing of their declaration',
+	defaultSeverity: DiagnosticSeverity.Hint,
+	optional: true,
+	check: checkIdentifierCasing,
+	fix: fixIdentifierCasing,
+};
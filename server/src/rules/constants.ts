@@ -0,0 +1,69 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import type { AnyNode } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import type { AflRule, RuleContext } from './index';
+import { getBuiltinFunction } from '../builtins';
+import { ConstantValue, formatConstant } from '../constants';
+import { getConstants } from '../analysis';
+import { forEachChild, nodeRange } from '../util';
+
+// Names the value in a message, and where it comes from when it is not written in place
+function describe(node: AnyNode, constant: ConstantValue): string {
+	const value = formatConstant(constant.value);
+	if (node.type === AST_NODE_TYPES.Literal || node.type === AST_NODE_TYPES.UnaryExpression) {
+		return value;
+	}
+	return constant.fromParam ? `${value} with the Param defaults` : value;
+}
+
+/**
+ * Reports constants that cannot be right: a period of zero or less given to a moving average
+ * or another function taking a number of bars, a division by zero, and a Ref() offset that is
+ * not a whole number of bars.
+ */
+export function checkConstants({ ast, analysis }: RuleContext): Diagnostic[] {
+	const constants = getConstants(analysis);
+	if (!ast || !constants) {
+		return [];
+	}
+	const diagnostics: Diagnostic[] = [];
+	const report = (node: AnyNode, message: string) => {
+		diagnostics.push({ severity: DiagnosticSeverity.Warning, range: nodeRange(node), message });
+	};
+
+	const visit = (node: AnyNode) => {
+		if (node.type === AST_NODE_TYPES.BinaryExpression && (node.operator === '/' || node.operator === '%')) {
+			const divisor = constants.expressions.get(node.right);
+			if (divisor?.value === 0) {
+				report(node.right, `Division by zero: the divisor is always ${describe(node.right, divisor)}`);
+			}
+		}
+
+		if (node.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier) {
+			const fn = getBuiltinFunction(node.callee.name);
+			fn?.params.forEach((param, index) => {
+				const arg = node.arguments[index] as AnyNode | undefined;
+				const constant = arg && constants.expressions.get(arg);
+				if (!arg || !constant) {
+					return;
+				}
+				if (param.name === 'periods' && typeof constant.value === 'number' && constant.value <= 0) {
+					report(arg, `The period of ${fn.name}() must be at least 1, but it is ${describe(arg, constant)}`);
+				}
+				if (fn.name === 'Ref' && index === 1 && (typeof constant.value !== 'number' || !Number.isInteger(constant.value))) {
+					report(arg, `The offset of Ref() must be a whole number of bars, but it is ${describe(arg, constant)}`);
+				}
+			});
+		}
+		forEachChild(node, visit);
+	};
+	visit(ast);
+	return diagnostics;
+}
+
+export const invalidConstantRule: AflRule = {
+	id: 'invalid-constant',
+	description: 'Constant periods, divisors and Ref() offsets must be valid',
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: checkConstants,
+};
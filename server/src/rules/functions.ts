@@ -1,7 +1,24 @@
 import { Diagnostic, DiagnosticSeverity, Range, Position, CodeActionKind, TextEdit } from 'vscode-languageserver-types';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeAction } from 'vscode-languageserver';
 import { stripStrings } from '../util';
-import { getDocuments } from '../server';
-import { CodeActionParams } from 'vscode-languageserver';
+import type { AflRule } from './index';
+
+// Carried in `Diagnostic.data` so the quick-fix knows exactly where the spaces go
+export interface FunctionSpacesData {
+	// Position right after '(' where a space is missing, if any
+	afterOpen?: Position;
+	// Position of ')' before which a space is missing, if any
+	beforeClose?: Position;
+}
+
+export const functionSpacesRule: AflRule = {
+	id: 'function-spaces',
+	description: "Function arguments must have a space after '(' and before ')'",
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: ({ text, uri }) => checkFunctionSpaces(text, uri),
+	fix: (document, diagnostic) => fixFunctionSapces(document, diagnostic),
+};
 
 export function checkFunctionSpaces(text: string, _uri: string): Diagnostic[] {
 	const diagnostics: Diagnostic[] = [];
@@ -90,11 +107,16 @@ export function checkFunctionSpaces(text: string, _uri: string): Diagnostic[] {
 					message = "Expected space after '('";
 				}
 
+				const data: FunctionSpacesData = {
+					afterOpen: hasSpaceAfterParen ? undefined : Position.create(lineNum, openParenIdx + 1),
+					beforeClose: hasSpaceBeforeParen ? undefined : Position.create(lineNum, closeParenIdx),
+				};
 				diagnostics.push({
 					severity: DiagnosticSeverity.Warning,
 					range,
 					message,
-					source: "afl-lsp"
+					source: "afl-lsp",
+					data
 				});
 			}
 		}
@@ -103,35 +125,37 @@ export function checkFunctionSpaces(text: string, _uri: string): Diagnostic[] {
 	return diagnostics;
 }
 
-export function fixFunctionSapces(params: CodeActionParams, diagnostic: Diagnostic) {
-
-	const uri = params.textDocument.uri;
-	const document = getDocuments().get(uri);
-	if (!document) {
+export function fixFunctionSapces(document: TextDocument, diagnostic: Diagnostic): CodeAction | undefined {
+	const data = diagnostic.data as FunctionSpacesData | undefined;
+	if (!data || (!data.afterOpen && !data.beforeClose)) {
 		return;
 	}
-	const range = diagnostic.range;
-	const text = document.getText(range);
-	// Insert a space before the last ')' in the range
-	const lastParen = text.lastIndexOf(')');
-	if (lastParen === -1) {
-		return;
+
+	// Insert at the exact parenthesis positions so that nested calls on the same line stay intact
+	const edits: TextEdit[] = [];
+	if (data.afterOpen) {
+		edits.push(TextEdit.insert(data.afterOpen, ' '));
+	}
+	if (data.beforeClose) {
+		edits.push(TextEdit.insert(data.beforeClose, ' '));
 	}
 
-	const newText = text.slice(0, lastParen) + ' )' + text.slice(lastParen + 1);
+	let title = "Insert spaces inside parentheses";
+	if (!data.afterOpen) {
+		title = "Insert space before ')'";
+	} else if (!data.beforeClose) {
+		title = "Insert space after '('";
+	}
 
-	const edit: TextEdit = {
-		range,
-		newText
-	};
 	return {
-		title: "Insert space before ')'",
+		title,
 		kind: CodeActionKind.QuickFix,
 		diagnostics: [diagnostic],
+		isPreferred: true,
 		edit: {
 			changes: {
-				[uri]: [edit]
+				[document.uri]: edits
 			}
 		}
 	};
-}
\ No newline at end of file
+}
@@ -0,0 +1,14 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import type { AflRule } from './index';
+
+export const includeResolutionRule: AflRule = {
+	id: 'include-resolution',
+	description: 'Include directives must resolve to a readable file and must not include each other in a cycle',
+	defaultSeverity: DiagnosticSeverity.Error,
+	check: ({ includes }) => includes.problems.map((problem): Diagnostic => ({
+		severity: DiagnosticSeverity.Error,
+		range: problem.range,
+		message: problem.message,
+		data: { kind: problem.kind },
+	})),
+};
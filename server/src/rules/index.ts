@@ -0,0 +1,142 @@
+import { CodeAction, Diagnostic, DiagnosticSeverity, Position, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { functionSpacesRule } from './functions';
+import { includeResolutionRule } from './includes';
+import { paramValuesRule } from './params';
+import { backtestSignalsRule } from './backtest';
+import { lookAheadRule } from './lookahead';
+import { typeMismatchRule } from './types';
+import { recursionRule } from './recursion';
+import { identifierCasingRule } from './casing';
+import { invalidConstantRule } from './constants';
+import { misspelledBuiltinRule, shadowedBuiltinRule, undefinedVariableRule, unusedParameterRule, unusedVariableRule } from './variables';
+import { IncludeGraph } from '../includes';
+import { DocumentSymbolTable } from '../symbolTable';
+import type { DocumentAnalysis } from '../analysis';
+import type { Program } from 'acorn';
+
+export interface RuleContext {
+	uri: string;
+	text: string;
+	includes: IncludeGraph;
+	// Recovered syntax tree, null when nothing could be parsed
+	ast: Program | null;
+	symbols: DocumentSymbolTable;
+	// Symbol tables of the files in `includes.documents`
+	includedTables: DocumentSymbolTable[];
+	// Holds the types and constants computed once per document version, see getTypes and getConstants
+	analysis: DocumentAnalysis;
+}
+
+export interface AflRule {
+	// Stable identifier, used as the diagnostic code and as the key in the `aflLsp.rules` setting
+	id: string;
+	description: string;
+	defaultSeverity: DiagnosticSeverity;
+	// Only runs when given a severity in `aflLsp.rules`
+	optional?: boolean;
+	check(context: RuleContext): Diagnostic[];
+	fix?(document: TextDocument, diagnostic: Diagnostic): CodeAction | undefined;
+}
+
+export type RuleSeveritySetting = 'off' | 'error' | 'warning' | 'information' | 'hint';
+
+const severityByName: Record<Exclude<RuleSeveritySetting, 'off'>, DiagnosticSeverity> = {
+	error: DiagnosticSeverity.Error,
+	warning: DiagnosticSeverity.Warning,
+	information: DiagnosticSeverity.Information,
+	hint: DiagnosticSeverity.Hint,
+};
+
+export const rules: AflRule[] = [
+	functionSpacesRule,
+	includeResolutionRule,
+	paramValuesRule,
+	backtestSignalsRule,
+	lookAheadRule,
+	typeMismatchRule,
+	undefinedVariableRule,
+	unusedVariableRule,
+	unusedParameterRule,
+	shadowedBuiltinRule,
+	misspelledBuiltinRule,
+	recursionRule,
+	identifierCasingRule,
+	invalidConstantRule,
+];
+
+export function getRule(id: unknown): AflRule | undefined {
+	return rules.find(rule => rule.id === id);
+}
+
+/**
+ * Runs every enabled rule against the document and returns at most `maxProblems` diagnostics.
+ * `severities` overrides the default severity per rule id; 'off' disables the rule.
+ */
+export function runRules(
+	context: RuleContext,
+	severities: Partial<Record<string, RuleSeveritySetting>> = {},
+	maxProblems = Number.POSITIVE_INFINITY
+): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	for (const rule of rules) {
+		if (diagnostics.length >= maxProblems) {
+			break;
+		}
+
+		const setting = severities[rule.id];
+		if (setting === 'off' || (!setting && rule.optional)) {
+			continue;
+		}
+		const severity = setting && severityByName[setting] ? severityByName[setting] : rule.defaultSeverity;
+
+		for (const diagnostic of rule.check(context)) {
+			diagnostics.push({
+				...diagnostic,
+				severity,
+				code: rule.id,
+				source: 'afl-lsp',
+			});
+			if (diagnostics.length >= maxProblems) {
+				break;
+			}
+		}
+	}
+	return diagnostics;
+}
+
+function comparePositions(a: Position, b: Position): number {
+	return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
+
+/**
+ * Collects the quick-fix edits of every fixable diagnostic into one non-overlapping set.
+ * Only preferred fixes are taken, since the others may change what the formula computes.
+ * Identical edits (two diagnostics asking for the same space) are applied once; an edit
+ * overlapping one already taken is left for the next run.
+ */
+export function getFixAllEdits(document: TextDocument, diagnostics: Diagnostic[]): TextEdit[] {
+	const candidates: TextEdit[] = [];
+	for (const diagnostic of diagnostics) {
+		const action = getRule(diagnostic.code)?.fix?.(document, diagnostic);
+		if (action?.isPreferred) {
+			candidates.push(...(action.edit?.changes?.[document.uri] ?? []));
+		}
+	}
+	candidates.sort((a, b) => comparePositions(a.range.start, b.range.start) || comparePositions(a.range.end, b.range.end));
+
+	const edits: TextEdit[] = [];
+	for (const edit of candidates) {
+		const previous = edits[edits.length - 1];
+		if (previous) {
+			const duplicate = comparePositions(previous.range.start, edit.range.start) === 0
+				&& comparePositions(previous.range.end, edit.range.end) === 0
+				&& previous.newText === edit.newText;
+			if (duplicate || comparePositions(edit.range.start, previous.range.end) < 0) {
+				continue;
+			}
+		}
+		edits.push(edit);
+	}
+	return edits;
+}
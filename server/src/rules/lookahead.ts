@@ -0,0 +1,191 @@
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Location, Range } from 'vscode-languageserver-types';
+import type { AnyNode, Expression, FunctionDeclaration, SpreadElement } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import type { AflRule, RuleContext } from './index';
+import { getBuiltinFunction } from '../builtins';
+import { forEachChild, getAssignedIdentifier, nodeRange } from '../util';
+
+const SIGNALS = new Set(['buy', 'sell', 'short', 'cover']);
+
+// Statements whose body may or may not run, so an assignment inside does not clear a leak
+const CONDITIONAL_STATEMENTS = new Set<string>([
+	AST_NODE_TYPES.IfStatement,
+	AST_NODE_TYPES.ForStatement,
+	AST_NODE_TYPES.WhileStatement,
+	AST_NODE_TYPES.DoWhileStatement,
+	AST_NODE_TYPES.SwitchStatement,
+]);
+
+// One link of the chain from a look-ahead call to the value using it
+interface LeakStep {
+	range: Range;
+	message: string;
+}
+
+// Steps from the source of the look-ahead to the current value, source first
+type Leak = LeakStep[];
+
+interface LeakState {
+	// Lower-case variable name to the chain that made it depend on future bars
+	variables: Map<string, Leak>;
+	// Lower-case user function name to the chain behind its return value
+	functions: Map<string, Leak>;
+}
+
+function literalNumber(node: Expression | SpreadElement | undefined): number | null {
+	if (!node) {
+		return null;
+	}
+	if (node.type === AST_NODE_TYPES.Literal && typeof node.value === 'number') {
+		return node.value;
+	}
+	if (node.type === AST_NODE_TYPES.UnaryExpression && (node.operator === '-' || node.operator === '+')) {
+		const value = literalNumber(node.argument);
+		return value === null ? null : node.operator === '-' ? -value : value;
+	}
+	return null;
+}
+
+function callLeak(node: AnyNode, state: LeakState): Leak | null {
+	if (node.type !== AST_NODE_TYPES.CallExpression || node.callee.type !== AST_NODE_TYPES.Identifier) {
+		return null;
+	}
+	const name = node.callee.name;
+	const userLeak = state.functions.get(name.toLowerCase());
+	if (userLeak) {
+		return [...userLeak, { range: nodeRange(node), message: `'${name}' returns a value computed from future bars` }];
+	}
+	if (getBuiltinFunction(name)?.lookAhead) {
+		return [{ range: nodeRange(node), message: `${name}() looks at future bars` }];
+	}
+	const offset = literalNumber(node.arguments[1]);
+	if (name.toLowerCase() === 'ref' && offset !== null && offset > 0) {
+		return [{ range: nodeRange(node), message: `Ref() with offset ${offset} reads ${offset === 1 ? 'the next bar' : `${offset} bars ahead`}` }];
+	}
+	return null;
+}
+
+// Returns the first chain of look-ahead found in an expression
+function findLeak(node: AnyNode, state: LeakState): Leak | null {
+	if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+		return null;
+	}
+	const leak = callLeak(node, state);
+	if (leak) {
+		return leak;
+	}
+	if (node.type === AST_NODE_TYPES.Identifier) {
+		return state.variables.get(node.name.toLowerCase()) ?? null;
+	}
+
+	let found: Leak | null = null;
+	const visit = (child: AnyNode) => {
+		// The callee of a call is a function name, not a variable read
+		if (!found && !(node.type === AST_NODE_TYPES.CallExpression && child === node.callee)) {
+			found = findLeak(child, state);
+		}
+	};
+	if (node.type === AST_NODE_TYPES.MemberExpression && !node.computed) {
+		visit(node.object as AnyNode);
+	} else {
+		forEachChild(node, visit);
+	}
+	return found;
+}
+
+function isConditional(node: AnyNode): boolean {
+	return CONDITIONAL_STATEMENTS.has(node.type) || node.type === AST_NODE_TYPES.ConditionalExpression;
+}
+
+/**
+ * Walks statements in source order, recording which variables depend on future bars and
+ * reporting the signal assignments they reach.
+ */
+function traceStatements(node: AnyNode, state: LeakState, uri: string, diagnostics: Diagnostic[], conditional: boolean): Leak | null {
+	let returned: Leak | null = null;
+
+	const assign = (target: AnyNode, value: Leak | null, clears: boolean) => {
+		const variable = getAssignedIdentifier(target);
+		if (!variable) {
+			return;
+		}
+		const key = variable.name.toLowerCase();
+		if (!value) {
+			if (clears && !conditional) {
+				state.variables.delete(key);
+			}
+			return;
+		}
+		const leak = [...value, { range: nodeRange(variable), message: `'${variable.name}' is assigned a value that depends on future bars` }];
+		state.variables.set(key, leak);
+		if (SIGNALS.has(key)) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.Warning,
+				range: nodeRange(variable),
+				message: `'${variable.name}' depends on future bars (${value[0].message}); the backtest uses information that is not available when trading`,
+				relatedInformation: value.map(step => DiagnosticRelatedInformation.create(Location.create(uri, step.range), step.message)),
+			});
+		}
+	};
+
+	if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+		return null;
+	}
+	if (node.type === AST_NODE_TYPES.AssignmentExpression) {
+		const value = findLeak(node.right, state) ?? (node.operator !== '=' ? findLeak(node.left as AnyNode, state) : null);
+		assign(node.left as AnyNode, value, node.operator === '=' && node.left.type === AST_NODE_TYPES.Identifier);
+		return null;
+	}
+	if (node.type === AST_NODE_TYPES.VariableDeclarator && node.init) {
+		assign(node.id as AnyNode, findLeak(node.init, state), true);
+		return null;
+	}
+	if (node.type === AST_NODE_TYPES.ReturnStatement && node.argument) {
+		returned = findLeak(node.argument, state);
+	}
+
+	const childConditional = conditional || isConditional(node);
+	forEachChild(node, child => {
+		returned = traceStatements(child, state, uri, diagnostics, childConditional) ?? returned;
+	});
+	return returned;
+}
+
+/**
+ * Traces values computed with look-ahead functions (Zig, Peak, Trough, Ref with a positive
+ * offset, ...) through assignments and user functions, and warns when one of them reaches
+ * Buy, Sell, Short or Cover.
+ */
+export function checkLookAhead({ uri, ast }: RuleContext): Diagnostic[] {
+	if (!ast) {
+		return [];
+	}
+	const diagnostics: Diagnostic[] = [];
+	const functions = new Map<string, Leak>();
+	const declarations = ast.body.filter((node): node is FunctionDeclaration => node.type === AST_NODE_TYPES.FunctionDeclaration);
+
+	// Functions are traced first so that calls to them can be followed; the second pass picks up
+	// functions that call ones declared after them
+	for (let pass = 0; pass < 2; pass++) {
+		for (const fn of declarations) {
+			const leak = traceStatements(fn.body, { variables: new Map(), functions }, uri, [], false);
+			if (leak) {
+				functions.set(fn.id.name.toLowerCase(), leak);
+			}
+		}
+	}
+
+	// Signals set inside functions are reported from the function body
+	for (const fn of declarations) {
+		traceStatements(fn.body, { variables: new Map(), functions }, uri, diagnostics, false);
+	}
+	traceStatements(ast, { variables: new Map(), functions }, uri, diagnostics, false);
+	return diagnostics;
+}
+
+export const lookAheadRule: AflRule = {
+	id: 'future-leak',
+	description: 'Buy, Sell, Short and Cover must not depend on future bars',
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: checkLookAhead,
+};
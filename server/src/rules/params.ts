@@ -0,0 +1,67 @@
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Location } from 'vscode-languageserver-types';
+import type { AflRule, RuleContext } from './index';
+import { ParamInfo, getParamInventory } from '../params';
+
+function checkRange(param: ParamInfo): string | null {
+	const { defaultValue, min, max } = param;
+	if (param.kind === 'Param') {
+		if (typeof min !== 'number' || typeof max !== 'number') {
+			return null;
+		}
+		if (min > max) {
+			return `Minimum ${min} of parameter '${param.label}' is greater than its maximum ${max}`;
+		}
+		if (typeof defaultValue === 'number' && (defaultValue < min || defaultValue > max)) {
+			return `Default ${defaultValue} of parameter '${param.label}' is outside its range ${min}..${max}`;
+		}
+	}
+	if (param.kind === 'ParamToggle' && typeof defaultValue === 'number' && defaultValue !== 0 && defaultValue !== 1) {
+		return `Default of toggle '${param.label}' must be 0 or 1, got ${defaultValue}`;
+	}
+	if (param.kind === 'ParamList' && param.choices && typeof defaultValue === 'number'
+		&& (defaultValue < 0 || defaultValue >= param.choices.length)) {
+		return `Default index ${defaultValue} of list '${param.label}' is outside its ${param.choices.length} choices`;
+	}
+	return null;
+}
+
+export function checkParams({ uri, text, ast }: RuleContext): Diagnostic[] {
+	if (!ast) {
+		return [];
+	}
+	const diagnostics: Diagnostic[] = [];
+	// AmiBroker identifies a parameter by its section and label, so a repeated label shares one value
+	const firstByKey = new Map<string, ParamInfo>();
+
+	for (const param of getParamInventory(ast, text)) {
+		if (param.label !== null) {
+			const key = `${param.section ?? ''}\u0000${param.label}`;
+			const first = firstByKey.get(key);
+			if (first) {
+				diagnostics.push({
+					severity: DiagnosticSeverity.Warning,
+					range: param.labelRange,
+					message: `Duplicate parameter label '${param.label}'${param.section ? ` in section '${param.section}'` : ''}; both calls share one value in the Parameters dialog`,
+					relatedInformation: [
+						DiagnosticRelatedInformation.create(Location.create(uri, first.labelRange), 'First defined here'),
+					],
+				});
+			} else {
+				firstByKey.set(key, param);
+			}
+		}
+
+		const problem = checkRange(param);
+		if (problem) {
+			diagnostics.push({ severity: DiagnosticSeverity.Warning, range: param.range, message: problem });
+		}
+	}
+	return diagnostics;
+}
+
+export const paramValuesRule: AflRule = {
+	id: 'param-values',
+	description: 'Param() labels must be unique within a section and defaults must lie inside their range',
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: checkParams,
+};
@@ -0,0 +1,37 @@
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Location } from 'vscode-languageserver-types';
+import type { AflRule, RuleContext } from './index';
+import { findRecursion } from '../callHierarchy';
+import { nodeRange } from '../util';
+
+/**
+ * Reports functions that call themselves, directly or through other functions. AmiBroker
+ * supports recursion, but it is slow on arrays and rarely intended in a formula.
+ */
+export function checkRecursion({ uri, ast }: RuleContext): Diagnostic[] {
+	if (!ast) {
+		return [];
+	}
+	const diagnostics: Diagnostic[] = [];
+	for (const [fn, chain] of findRecursion(ast)) {
+		const names = [fn.id.name, ...chain.map(site => site.name)];
+		diagnostics.push({
+			severity: DiagnosticSeverity.Information,
+			range: nodeRange(fn.id),
+			message: chain.length === 1
+				? `'${fn.id.name}' calls itself`
+				: `'${fn.id.name}' is recursive: ${names.join(' -> ')}`,
+			relatedInformation: chain.map(site => DiagnosticRelatedInformation.create(
+				Location.create(uri, site.range),
+				`Call of '${site.name}' from '${site.caller?.id.name}'`
+			)),
+		});
+	}
+	return diagnostics;
+}
+
+export const recursionRule: AflRule = {
+	id: 'recursive-call',
+	description: 'Functions should not call themselves',
+	defaultSeverity: DiagnosticSeverity.Information,
+	check: checkRecursion,
+};
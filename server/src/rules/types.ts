@@ -0,0 +1,147 @@
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { AnyNode, Expression, IfStatement, Statement } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import type { AflRule, RuleContext } from './index';
+import { AflValueType, getBuiltinFunction } from '../builtins';
+import { InferredType } from '../types';
+import { getTypes } from '../analysis';
+import { forEachChild, nodeRange } from '../util';
+
+export interface TypeMismatchData {
+	// Replacement of the whole if statement by an IIf() assignment, when it has that shape
+	iif?: { range: Range; newText: string };
+}
+
+const CONDITION_KEYWORDS: Record<string, string> = {
+	[AST_NODE_TYPES.IfStatement]: 'if',
+	[AST_NODE_TYPES.WhileStatement]: 'while',
+	[AST_NODE_TYPES.DoWhileStatement]: 'do-while',
+	[AST_NODE_TYPES.ForStatement]: 'for',
+};
+
+function accepts(expected: AflValueType, actual: InferredType): boolean {
+	if (actual === 'unknown' || expected === 'any') {
+		return true;
+	}
+	switch (expected) {
+		case 'number':
+		case 'boolean':
+			return actual === 'number' || actual === 'boolean';
+		case 'string':
+			return actual === 'string';
+		default:
+			// Arrays, colors, styles and shapes take numbers and arrays
+			return actual !== 'string';
+	}
+}
+
+// `x = value;`, possibly alone in a block
+function singleAssignment(statement: Statement | null | undefined): { name: string; value: Expression } | null {
+	if (!statement) {
+		return null;
+	}
+	if (statement.type === AST_NODE_TYPES.BlockStatement) {
+		return statement.body.length === 1 ? singleAssignment(statement.body[0] as Statement) : null;
+	}
+	if (statement.type !== AST_NODE_TYPES.ExpressionStatement) {
+		return null;
+	}
+	const expression = statement.expression;
+	if (expression.type !== AST_NODE_TYPES.AssignmentExpression || expression.operator !== '='
+		|| expression.left.type !== AST_NODE_TYPES.Identifier) {
+		return null;
+	}
+	return { name: expression.left.name, value: expression.right };
+}
+
+/**
+ * Rewrites `if ( cond ) x = a; else x = b;` as `x = IIf( cond, a, b );`, which is what an
+ * array condition usually means. Without an else branch, x keeps its value where cond is false.
+ */
+function toIIf(node: IfStatement, text: string): TypeMismatchData['iif'] {
+	const consequent = singleAssignment(node.consequent);
+	if (!consequent) {
+		return undefined;
+	}
+	const source = (expression: AnyNode) => text.slice(expression.start, expression.end);
+	let otherwise = consequent.name;
+	if (node.alternate) {
+		const alternate = singleAssignment(node.alternate);
+		if (!alternate || alternate.name.toLowerCase() !== consequent.name.toLowerCase()) {
+			return undefined;
+		}
+		otherwise = source(alternate.value);
+	}
+	return {
+		range: nodeRange(node),
+		newText: `${consequent.name} = IIf( ${source(node.test)}, ${source(consequent.value)}, ${otherwise} );`,
+	};
+}
+
+/**
+ * Reports arrays used where AmiBroker needs a single value, such as the condition of an
+ * `if`, and arguments of built-in functions whose type does not match the parameter.
+ */
+export function checkTypes({ text, ast, analysis }: RuleContext): Diagnostic[] {
+	const types = getTypes(analysis);
+	if (!ast || !types) {
+		return [];
+	}
+	const typeOf = (node: AnyNode) => types.expressions.get(node) ?? 'unknown';
+	const diagnostics: Diagnostic[] = [];
+
+	const visit = (node: AnyNode) => {
+		const keyword = CONDITION_KEYWORDS[node.type];
+		const test = (node as { test?: AnyNode | null }).test;
+		if (keyword && test && typeOf(test) === 'array') {
+			const data: TypeMismatchData = node.type === AST_NODE_TYPES.IfStatement ? { iif: toIIf(node, text) } : {};
+			diagnostics.push({
+				severity: DiagnosticSeverity.Warning,
+				range: nodeRange(test),
+				message: `The condition of '${keyword}' is an array, but it must be a single number. `
+					+ 'Use IIf() to choose bar by bar, or pick one bar with a subscript such as [ BarCount - 1 ]',
+				data,
+			});
+		}
+
+		if (node.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier) {
+			const fn = getBuiltinFunction(node.callee.name);
+			fn?.params.forEach((param, index) => {
+				const arg = node.arguments[index];
+				const actual = arg ? typeOf(arg) : 'unknown';
+				if (arg && !accepts(param.type, actual)) {
+					diagnostics.push({
+						severity: DiagnosticSeverity.Warning,
+						range: nodeRange(arg),
+						message: `Argument '${param.name}' of ${fn.name}() expects ${param.type === 'array' ? 'an array' : `a ${param.type}`}, but gets ${actual === 'array' ? 'an array' : `a ${actual}`}`,
+					});
+				}
+			});
+		}
+		forEachChild(node, visit);
+	};
+	visit(ast);
+	return diagnostics;
+}
+
+export function fixTypeMismatch(document: TextDocument, diagnostic: Diagnostic): CodeAction | undefined {
+	const iif = (diagnostic.data as TypeMismatchData | undefined)?.iif;
+	if (!iif) {
+		return undefined;
+	}
+	return {
+		title: 'Convert to IIf()',
+		kind: CodeActionKind.QuickFix,
+		diagnostics: [diagnostic],
+		edit: { changes: { [document.uri]: [TextEdit.replace(iif.range, iif.newText)] } },
+	};
+}
+
+export const typeMismatchRule: AflRule = {
+	id: 'type-mismatch',
+	description: 'Arrays must not be used where a single number is expected',
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: checkTypes,
+	fix: fixTypeMismatch,
+};
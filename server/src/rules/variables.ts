@@ -0,0 +1,254 @@
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, DiagnosticTag, Position, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { AnyNode } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import type { AflRule, RuleContext } from './index';
+import { findClosestBuiltinName, getBuiltinConstant, getBuiltinFunction, isReservedVariable } from '../builtins';
+import { Scope, SymbolBinding, forEachBinding, isIncludedByOtherDocuments } from '../symbolTable';
+import { forEachChild, nodeRange } from '../util';
+
+export interface MisspelledBuiltinData {
+	suggestion: string;
+}
+
+const LOOP_STATEMENTS = new Set<string>([
+	AST_NODE_TYPES.ForStatement,
+	AST_NODE_TYPES.WhileStatement,
+	AST_NODE_TYPES.DoWhileStatement,
+]);
+
+function isBefore(a: Position, b: Position): boolean {
+	return a.line < b.line || (a.line === b.line && a.character < b.character);
+}
+
+function contains(range: Range, position: Position): boolean {
+	return !isBefore(position, range.start) && !isBefore(range.end, position);
+}
+
+function isInFunction(root: Scope, position: Position): boolean {
+	return root.children.some(child => contains(child.range, position));
+}
+
+// Number of reads of each binding, counted in one pass over the references
+function countReads({ symbols }: RuleContext): Map<SymbolBinding, number> {
+	const reads = new Map<SymbolBinding, number>();
+	for (const ref of symbols.references) {
+		if (ref.binding && ref.access !== 'write') {
+			reads.set(ref.binding, (reads.get(ref.binding) ?? 0) + 1);
+		}
+	}
+	return reads;
+}
+
+// Lower-case names read anywhere in the document, also through unresolved references
+function readNames({ symbols }: RuleContext): Set<string> {
+	return new Set(symbols.references
+		.filter(ref => ref.access !== 'write')
+		.map(ref => ref.name.toLowerCase()));
+}
+
+/**
+ * Reports reads of a variable that come before its first assignment in the same scope.
+ * Reads inside a loop that also assigns the variable are left alone, since the value comes
+ * from the previous iteration, as are reads of formula-level variables inside functions.
+ */
+export function checkUndefinedVariables({ ast, symbols }: RuleContext): Diagnostic[] {
+	if (!ast) {
+		return [];
+	}
+
+	const loops: Range[] = [];
+	// Range of the whole assignment that declares each implicit variable, by the target position
+	const declaringAssignments = new Map<string, Range>();
+	const visit = (node: AnyNode) => {
+		if (LOOP_STATEMENTS.has(node.type)) {
+			loops.push(nodeRange(node));
+		}
+		if (node.type === AST_NODE_TYPES.AssignmentExpression && node.left.type === AST_NODE_TYPES.Identifier) {
+			const target = nodeRange(node.left);
+			declaringAssignments.set(`${target.start.line}:${target.start.character}`, nodeRange(node));
+		}
+		forEachChild(node, visit);
+	};
+	visit(ast);
+
+	const diagnostics: Diagnostic[] = [];
+	for (const ref of symbols.references) {
+		const binding = ref.binding;
+		if (ref.access === 'write' || !binding || binding.kind !== 'variable' || binding.declarationKind !== 'implicit') {
+			continue;
+		}
+		const declaration = binding.loc.range.start;
+		// In `x = x + 1` the read on the right still comes before the assignment
+		const assigned = declaringAssignments.get(`${declaration.line}:${declaration.character}`)?.end ?? declaration;
+		if (!isBefore(ref.range.start, assigned)) {
+			continue;
+		}
+		if (binding.scope.kind === 'document' && isInFunction(symbols.root, ref.range.start)) {
+			continue;
+		}
+		if (loops.some(loop => contains(loop, ref.range.start) && contains(loop, declaration))) {
+			continue;
+		}
+		diagnostics.push({
+			severity: DiagnosticSeverity.Warning,
+			range: ref.range,
+			message: `'${ref.name}' is read before it is first assigned on line ${declaration.line + 1}`,
+			relatedInformation: [DiagnosticRelatedInformation.create(binding.loc, 'First assigned here')],
+		});
+	}
+	return diagnostics;
+}
+
+/**
+ * Reports variables that are assigned but never read. Reserved variables are read by
+ * AmiBroker itself, and formula-level variables of a file included elsewhere may be read
+ * by the including formula, so neither is reported.
+ */
+export function checkUnusedVariables(context: RuleContext): Diagnostic[] {
+	const { uri, symbols, includedTables } = context;
+	const read = readNames(context);
+	// Included files share the formula-level namespace and may read what this file assigns
+	for (const table of includedTables) {
+		table.references.filter(ref => ref.access !== 'write').forEach(ref => read.add(ref.name.toLowerCase()));
+	}
+	const includedElsewhere = isIncludedByOtherDocuments(uri);
+	const reads = countReads(context);
+
+	const diagnostics: Diagnostic[] = [];
+	forEachBinding(symbols.root, binding => {
+		if (binding.kind !== 'variable' || binding.declarationKind === 'global' || binding.declarationKind === 'static') {
+			return;
+		}
+		if (isReservedVariable(binding.name) || (binding.scope.kind === 'document' && includedElsewhere)) {
+			return;
+		}
+		const used = binding.scope.kind === 'document'
+			? read.has(binding.name.toLowerCase())
+			: reads.has(binding);
+		if (!used) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.Hint,
+				range: binding.loc.range,
+				message: `'${binding.name}' is assigned but never read`,
+				tags: [DiagnosticTag.Unnecessary],
+			});
+		}
+	});
+	return diagnostics;
+}
+
+export function checkUnusedParameters(context: RuleContext): Diagnostic[] {
+	const reads = countReads(context);
+	const diagnostics: Diagnostic[] = [];
+	forEachBinding(context.symbols.root, binding => {
+		if (binding.kind === 'parameter' && !reads.has(binding)) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.Hint,
+				range: binding.loc.range,
+				message: `Parameter '${binding.name}' of '${binding.scope.name}' is never used`,
+				tags: [DiagnosticTag.Unnecessary],
+			});
+		}
+	});
+	return diagnostics;
+}
+
+/**
+ * Reports user functions named after a built-in function: every call in the formula then
+ * goes to the user definition instead of AmiBroker's.
+ */
+export function checkShadowedBuiltins({ symbols }: RuleContext): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	forEachBinding(symbols.root, binding => {
+		const builtin = binding.kind === 'function' ? getBuiltinFunction(binding.name) : undefined;
+		if (builtin) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.Warning,
+				range: binding.loc.range,
+				message: `Function '${binding.name}' shadows the AmiBroker built-in ${builtin.name}()`,
+			});
+		}
+	});
+	return diagnostics;
+}
+
+/**
+ * Reports names that are neither declared nor in the built-in catalog, when a built-in
+ * with a very similar name exists. Names declared by included files are not reported.
+ */
+export function checkMisspelledBuiltins({ symbols, includedTables }: RuleContext): Diagnostic[] {
+	const declared = new Set<string>();
+	forEachBinding(symbols.root, binding => declared.add(binding.name.toLowerCase()));
+	for (const table of includedTables) {
+		forEachBinding(table.root, binding => declared.add(binding.name.toLowerCase()));
+	}
+
+	const diagnostics: Diagnostic[] = [];
+	for (const ref of symbols.references) {
+		const name = ref.name;
+		if (ref.binding || declared.has(name.toLowerCase())
+			|| getBuiltinFunction(name) || getBuiltinConstant(name) || isReservedVariable(name)) {
+			continue;
+		}
+		const suggestion = findClosestBuiltinName(name);
+		if (suggestion) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.Warning,
+				range: ref.range,
+				message: `Unknown name '${name}'. Did you mean '${suggestion}'?`,
+				data: { suggestion } satisfies MisspelledBuiltinData,
+			});
+		}
+	}
+	return diagnostics;
+}
+
+export function fixMisspelledBuiltin(document: TextDocument, diagnostic: Diagnostic): CodeAction | undefined {
+	const suggestion = (diagnostic.data as MisspelledBuiltinData | undefined)?.suggestion;
+	if (!suggestion) {
+		return undefined;
+	}
+	return {
+		title: `Change to '${suggestion}'`,
+		kind: CodeActionKind.QuickFix,
+		diagnostics: [diagnostic],
+		edit: { changes: { [document.uri]: [TextEdit.replace(diagnostic.range, suggestion)] } },
+	};
+}
+
+export const undefinedVariableRule: AflRule = {
+	id: 'undefined-variable',
+	description: 'Variables must be assigned before they are read',
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: checkUndefinedVariables,
+};
+
+export const unusedVariableRule: AflRule = {
+	id: 'unused-variable',
+	description: 'Assigned variables should be read',
+	defaultSeverity: DiagnosticSeverity.Hint,
+	check: checkUnusedVariables,
+};
+
+export const unusedParameterRule: AflRule = {
+	id: 'unused-parameter',
+	description: 'Function parameters should be used',
+	defaultSeverity: DiagnosticSeverity.Hint,
+	check: checkUnusedParameters,
+};
+
+export const shadowedBuiltinRule: AflRule = {
+	id: 'shadowed-builtin',
+	description: 'User functions should not reuse the name of a built-in function',
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: checkShadowedBuiltins,
+};
+
+export const misspelledBuiltinRule: AflRule = {
+	id: 'misspelled-builtin',
+	description: 'Unknown names close to a built-in are probably misspelled',
+	defaultSeverity: DiagnosticSeverity.Warning,
+	check: checkMisspelledBuiltins,
+	fix: fixMisspelledBuiltin,
+};
@@ -0,0 +1,106 @@
+import { SemanticTokensLegend } from 'vscode-languageserver';
+import { DocumentSymbolTable, Scope, SymbolBinding, lookupIncluded } from './symbolTable';
+import { getBuiltinConstant, getBuiltinFunction, isReservedVariable } from './builtins';
+import { tokenize } from './lexer';
+
+export const SEMANTIC_TOKEN_TYPES = ['function', 'parameter', 'variable', 'enumMember'] as const;
+// `global` is not a standard modifier; it is contributed in package.json
+export const SEMANTIC_TOKEN_MODIFIERS = ['declaration', 'defaultLibrary', 'readonly', 'global'] as const;
+
+type SemanticTokenType = typeof SEMANTIC_TOKEN_TYPES[number];
+type SemanticTokenModifier = typeof SEMANTIC_TOKEN_MODIFIERS[number];
+
+export const semanticTokensLegend: SemanticTokensLegend = {
+	tokenTypes: [...SEMANTIC_TOKEN_TYPES],
+	tokenModifiers: [...SEMANTIC_TOKEN_MODIFIERS],
+};
+
+export interface SemanticToken {
+	line: number;
+	character: number;
+	length: number;
+	// Index into the legend's token types
+	tokenType: number;
+	// Bit set of the legend's token modifiers
+	tokenModifiers: number;
+}
+
+function encode(line: number, character: number, length: number, type: SemanticTokenType, modifiers: SemanticTokenModifier[]): SemanticToken {
+	return {
+		line,
+		character,
+		length,
+		tokenType: SEMANTIC_TOKEN_TYPES.indexOf(type),
+		tokenModifiers: modifiers.reduce((bits, modifier) => bits | (1 << SEMANTIC_TOKEN_MODIFIERS.indexOf(modifier)), 0),
+	};
+}
+
+function positionKey(line: number, character: number): string {
+	return `${line}:${character}`;
+}
+
+function collectDeclarations(scope: Scope, declarations: Map<string, SymbolBinding>): void {
+	for (const binding of scope.bindings.values()) {
+		// `global x;` inside a function shares the binding of the document scope
+		if (binding.scope === scope) {
+			declarations.set(positionKey(binding.loc.range.start.line, binding.loc.range.start.character), binding);
+		}
+	}
+	scope.children.forEach(child => collectDeclarations(child, declarations));
+}
+
+function classifyBinding(binding: SymbolBinding): [SemanticTokenType, SemanticTokenModifier[]] {
+	if (binding.kind === 'function') {
+		return ['function', []];
+	}
+	if (binding.kind === 'parameter') {
+		return ['parameter', []];
+	}
+	return ['variable', binding.scope.kind === 'document' ? ['global'] : []];
+}
+
+/**
+ * Classifies every identifier of the document from the resolved symbol table, falling back
+ * to the built-in catalog for functions, reserved variables and constants. Keywords, strings
+ * and comments are left to the TextMate grammar.
+ */
+export function getSemanticTokens(text: string, table: DocumentSymbolTable): SemanticToken[] {
+	const declarations = new Map<string, SymbolBinding>();
+	collectDeclarations(table.root, declarations);
+	const references = new Map(table.references.map(ref => [positionKey(ref.range.start.line, ref.range.start.character), ref]));
+
+	const lineStarts = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\n') {
+			lineStarts.push(i + 1);
+		}
+	}
+
+	const tokens: SemanticToken[] = [];
+	for (const token of tokenize(text)) {
+		if (token.type !== 'identifier') {
+			continue;
+		}
+		const character = token.start - lineStarts[token.line];
+		const key = positionKey(token.line, character);
+
+		const declaration = declarations.get(key);
+		const reference = references.get(key);
+		// A name not declared in the document may come from an included file
+		const binding = declaration ?? (reference ? reference.binding ?? lookupIncluded(table.uri, token.value) : null);
+		const modifiers: SemanticTokenModifier[] = declaration ? ['declaration'] : [];
+
+		// `Buy = ...` creates a binding, but Buy is still the backtester's variable
+		if (isReservedVariable(token.value) && (!binding || (binding.kind === 'variable' && binding.scope.kind === 'document'))) {
+			tokens.push(encode(token.line, character, token.value.length, 'variable', [...modifiers, 'global', 'defaultLibrary']));
+		} else if (binding) {
+			const [type, bindingModifiers] = classifyBinding(binding);
+			tokens.push(encode(token.line, character, token.value.length, type, [...modifiers, ...bindingModifiers]));
+		} else if (getBuiltinConstant(token.value)) {
+			tokens.push(encode(token.line, character, token.value.length, 'enumMember', ['readonly', 'defaultLibrary']));
+		} else if (getBuiltinFunction(token.value)) {
+			tokens.push(encode(token.line, character, token.value.length, 'function', ['defaultLibrary']));
+		}
+	}
+	return tokens;
+}
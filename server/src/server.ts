@@ -10,8 +10,8 @@ import {
 	TextDocumentSyncKind,
 	TextDocumentPositionParams,
 	Location,
+	Position,
 	CompletionItem,
-	CompletionItemKind,
 	Hover,
 	MarkupKind,
 	CodeActionParams,
@@ -22,19 +22,99 @@ import {
 	DidChangeConfigurationNotification,
 	DocumentDiagnosticReportKind,
 	DocumentDiagnosticReport,
+	SignatureHelp,
+	SignatureHelpParams,
+	DocumentLink,
+	ReferenceParams,
+	RenameParams,
+	PrepareRenameParams,
+	WorkspaceEdit,
+	TextEdit,
+	Range,
+	ResponseError,
+	ErrorCodes,
+	LSPErrorCodes,
+	CancellationToken,
+	DocumentFormattingParams,
+	DocumentRangeFormattingParams,
+	CodeActionKind,
+	SymbolKind,
+	FoldingRange,
+	SemanticTokens,
+	SemanticTokensBuilder,
+	SemanticTokensDelta,
+	WorkspaceFolder,
+	WorkspaceSymbolParams,
+	SymbolInformation,
+	FileChangeType,
+	InlayHint,
+	CallHierarchyItem,
+	CallHierarchyIncomingCall,
+	CallHierarchyOutgoingCall,
 } from "vscode-languageserver/node";
 
 import { TextDocument } from "vscode-languageserver-textdocument";
+import type { FunctionDeclaration, Program } from "acorn";
 import {
 	analyzeText,
-	symbolTable,
 	getWordAtPosition,
-	getSymbolInfo,
+	resolveSymbol,
+	getVisibleSymbols,
+	getBindingLabel,
+	isIncludedByOtherDocuments,
+	removeDocumentTable,
+	getDocumentTable,
+	findReferences,
 } from "./symbolTable";
-import { fixFunctionSapces } from "./rules/functions";
-import { AFLParser } from "eslint-plugin-afl";
-import { Parser } from "acorn";
-import { nodeToDocumentSymbol } from "./util";
+import {
+	IncludeGraph,
+	resolveIncludeGraph,
+	readFileText,
+	pathToUri,
+	uriToPath,
+} from "./includes";
+import {
+	FormatSettings,
+	defaultFormatSettings,
+	formatDocument,
+	formatRange,
+} from "./formatter";
+import { getRule, getFixAllEdits, RuleSeveritySetting } from "./rules";
+import { lintText } from "./linter";
+import { evictAnalysis, getAnalysis, getConstants, getIncludes, getTypes, invalidateIncludes } from "./analysis";
+import { formatConstant } from "./constants";
+import {
+	nodeToDocumentSymbol,
+	getCallContext,
+	parseText,
+	getSectionMarker,
+} from "./util";
+import { getFoldingRanges } from "./folding";
+import { getSemanticTokens, semanticTokensLegend } from "./semanticTokens";
+import {
+	indexDocument,
+	indexFolder,
+	removeFolderFromIndex,
+	removeFromIndex,
+	searchWorkspaceSymbols,
+	getIndexedFiles,
+} from "./workspaceIndex";
+import { ParamInventory, PARAM_INVENTORY_REQUEST, getParamInventory } from "./params";
+import {
+	findCallSites,
+	findFunctionDeclaration,
+	formulaItem,
+	functionItem,
+} from "./callHierarchy";
+import { InlayHintSettings, defaultInlayHintSettings, getInlayHints } from "./inlayHints";
+import { getCompletions } from "./completion";
+import {
+	getBuiltinFunction,
+	getBuiltinDocumentation,
+	getSignatureInformation,
+	formatSignature,
+	isReservedVariable,
+} from "./builtins";
 
 // Create a connection for the server, using Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -43,13 +123,20 @@ const connection = createConnection(ProposedFeatures.all);
 // Create a simple text document manager.
 const documents = new TextDocuments(TextDocument);
 
+// Kind of the "fix all" source action, so that `source.fixAll` on save picks it up
+const FIX_ALL_KIND = `${CodeActionKind.SourceFixAll}.afl`;
+
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
+let hasDiagnosticPullCapability = false;
+let hasSemanticTokensRefreshCapability = false;
+let hasInlayHintRefreshCapability = false;
+let initialWorkspaceFolders: WorkspaceFolder[] = [];
 let hasDiagnosticRelatedInformationCapability = false;
 
 connection.onInitialize((params: InitializeParams) => {
 	const capabilities = params.capabilities;
+	initialWorkspaceFolders = params.workspaceFolders ?? [];
 
 	// Does the client support the `workspace/configuration` request?
 	// If not, we fall back using global settings.
@@ -59,6 +146,15 @@ connection.onInitialize((params: InitializeParams) => {
 	hasWorkspaceFolderCapability = !!(
 		capabilities.workspace && !!capabilities.workspace.workspaceFolders
 	);
+	hasDiagnosticPullCapability = !!(
+		capabilities.textDocument && capabilities.textDocument.diagnostic
+	);
+	hasSemanticTokensRefreshCapability = !!(
+		capabilities.workspace && capabilities.workspace.semanticTokens && capabilities.workspace.semanticTokens.refreshSupport
+	);
+	hasInlayHintRefreshCapability = !!(
+		capabilities.workspace && capabilities.workspace.inlayHint && capabilities.workspace.inlayHint.refreshSupport
+	);
 	hasDiagnosticRelatedInformationCapability = !!(
 		capabilities.textDocument &&
 		capabilities.textDocument.publishDiagnostics &&
@@ -69,17 +165,42 @@ connection.onInitialize((params: InitializeParams) => {
 		capabilities: {
 			textDocumentSync: TextDocumentSyncKind.Incremental,
 			definitionProvider: true,
+			referencesProvider: true,
+			renameProvider: {
+				prepareProvider: true,
+			},
 			// Tell the client that this server supports code completion.
 			completionProvider: {
 				resolveProvider: true,
+				// Option names of SetOption( " and ParamList choices are completed inside strings
+				triggerCharacters: ['"'],
 			},
 			diagnosticProvider: {
 				interFileDependencies: false,
 				workspaceDiagnostics: false,
 			},
+			signatureHelpProvider: {
+				triggerCharacters: ["(", ","],
+				retriggerCharacters: [" "],
+			},
 			hoverProvider: true,
-			codeActionProvider: true,
+			codeActionProvider: {
+				codeActionKinds: [CodeActionKind.QuickFix, FIX_ALL_KIND],
+			},
 			documentSymbolProvider: true,
+			documentLinkProvider: {
+				resolveProvider: false,
+			},
+			foldingRangeProvider: true,
+			documentFormattingProvider: true,
+			documentRangeFormattingProvider: true,
+			workspaceSymbolProvider: true,
+			semanticTokensProvider: {
+				legend: semanticTokensLegend,
+				full: { delta: true },
+			},
+			inlayHintProvider: true,
+			callHierarchyProvider: true,
 		},
 	};
 	if (hasWorkspaceFolderCapability) {
@@ -101,15 +222,57 @@ connection.onInitialized(() => {
 		);
 	}
 	if (hasWorkspaceFolderCapability) {
-		connection.workspace.onDidChangeWorkspaceFolders((_event) => {
-			connection.console.log("Workspace folder change event received.");
+		connection.workspace.onDidChangeWorkspaceFolders((event) => {
+			event.removed.forEach((folder) => removeFolderFromIndex(folder.uri));
+			indexWorkspaceFolders(event.added).catch(logError("Indexing workspace folders"));
+		});
+	}
+	indexWorkspaceFolders(initialWorkspaceFolders).catch(logError("Indexing workspace folders"));
+});
+
+// Work started from a notification has no response to carry its error, so it goes to the output channel
+function logError(task: string): (error: unknown) => void {
+	return (error) => {
+		connection.console.error(`${task} failed: ${error instanceof Error ? error.stack ?? error.message : String(error)}`);
+	};
+}
+
+async function indexWorkspaceFolders(folders: WorkspaceFolder[]): Promise<void> {
+	if (folders.length === 0) {
+		return;
+	}
+	// Reports nothing when the client does not support server-initiated progress
+	const progress = await connection.window.createWorkDoneProgress();
+	progress.begin("Indexing AFL files", 0, undefined, false);
+	for (const folder of folders) {
+		const count = await indexFolder(folder.uri, readDocumentText, (indexed, total) => {
+			progress.report(Math.round((indexed / total) * 100), `${folder.name}: ${indexed}/${total}`);
 		});
+		connection.console.log(`Indexed ${count} AFL files in ${folder.name}`);
 	}
+	progress.done();
+}
+
+documents.onDidOpen((e) => {
+	if (e.document.languageId !== "afl") {
+		return;
+	}
+	updateSymbolsForDocument(e.document).catch(logError(`Updating symbols of ${e.document.uri}`));
 });
 
-documents.onDidOpen((e) => updateSymbolsForDocument(e.document));
+// Pause in typing after which the includes and the workspace index of a document are updated
+const SYMBOL_UPDATE_DELAY = 300;
+
+// Pending update per document, so that editing one document does not delay another
+const pendingSymbolUpdates = new Map<string, NodeJS.Timeout>();
 
-let updateSymbolTimeout: NodeJS.Timeout | null = null;
+function cancelSymbolUpdate(uri: string): void {
+	const pending = pendingSymbolUpdates.get(uri);
+	if (pending) {
+		clearTimeout(pending);
+		pendingSymbolUpdates.delete(uri);
+	}
+}
 
 documents.onDidChangeContent((e) => {
 	// Only process documents with the "afl" language ID
@@ -117,30 +280,57 @@ documents.onDidChangeContent((e) => {
 		return;
 	}
 
-	// add document cooldown flag
-	if (updateSymbolTimeout !== null) {
-		clearTimeout(updateSymbolTimeout);
-	}
-	updateSymbolTimeout = setTimeout(() => {
-		// Update symbols for the document when its content changes
-		updateSymbolsForDocument(e.document, true);
-	}, 2000);
+	cancelSymbolUpdate(e.document.uri);
+	pendingSymbolUpdates.set(e.document.uri, setTimeout(() => {
+		pendingSymbolUpdates.delete(e.document.uri);
+		updateSymbolsForDocument(e.document).catch(logError(`Updating symbols of ${e.document.uri}`));
+	}, SYMBOL_UPDATE_DELAY));
 });
 
-function updateSymbolsForDocument(doc: TextDocument, clearCache = false): void {
-	const text = doc.getText();
-	const symbols = analyzeText(text, doc.uri, clearCache);
-	for (const [k, v] of symbols) {
-		symbolTable.set(k, v);
+async function updateSymbolsForDocument(doc: TextDocument): Promise<void> {
+	const analysis = getAnalysis(doc);
+	indexDocument(doc.uri, analysis.text, analysis.ast);
+
+	// Make the functions and variables of included files visible in this document
+	await getIncludeGraph(doc);
+
+	// Names from included files may now resolve differently
+	if (hasSemanticTokensRefreshCapability) {
+		connection.languages.semanticTokens.refresh();
 	}
 }
 
+// Prefers the editor buffer of an open document over the file on disk
+function readDocumentText(uri: string): string | null {
+	const path = uriToPath(uri);
+	const open = documents.get(uri) ?? documents.all().find((doc) => path !== null && uriToPath(doc.uri) === path);
+	return open ? open.getText() : readFileText(uri);
+}
+
+async function getIncludeGraph(doc: TextDocument): Promise<IncludeGraph> {
+	const settings = await getDocumentSettings(doc.uri);
+	return getIncludes(getAnalysis(doc), settings?.includeRoot ?? defaultSettings.includeRoot, readDocumentText);
+}
+
+// Same as getIncludeGraph, for files that may not be open
+async function getIncludeGraphOf(uri: string, text: string): Promise<IncludeGraph> {
+	const settings = await getDocumentSettings(uri);
+	return resolveIncludeGraph(
+		uri,
+		text,
+		settings?.includeRoot ?? defaultSettings.includeRoot,
+		readDocumentText
+	);
+}
+
 connection.onDefinition(
-	(params: TextDocumentPositionParams): Location | null => {
+	(params: TextDocumentPositionParams, token): Location | null => {
 		const document = documents.get(params.textDocument.uri);
 		if (!document) {
 			return null;
 		}
+		throwIfCancelled(token);
+		getAnalysis(document);
 
 		const lines = document.getText().split(/\r?\n/);
 		const line = lines[params.position.line];
@@ -149,19 +339,133 @@ connection.onDefinition(
 		if (!word) {
 			return null;
 		}
-		return symbolTable.get(word) || null;
+		return resolveSymbol(params.textDocument.uri, word, params.position)?.loc || null;
 	}
 );
 
-// The example settings
+// Ends a request the client no longer waits for, e.g. because the document changed again
+function throwIfCancelled(token: CancellationToken): void {
+	if (token.isCancellationRequested) {
+		throw new ResponseError(LSPErrorCodes.RequestCancelled, "Request cancelled");
+	}
+}
+
+// Returns the identifier under the cursor together with its range
+function getWordRangeAtPosition(document: TextDocument, position: Position): { word: string; range: Range } | null {
+	const line = document.getText().split(/\r?\n/)[position.line] ?? "";
+	const regex = /[A-Za-z_][A-Za-z0-9_]*/g;
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(line))) {
+		const start = match.index;
+		const end = start + match[0].length;
+		if (position.character >= start && position.character <= end) {
+			return { word: match[0], range: Range.create(position.line, start, position.line, end) };
+		}
+	}
+	return null;
+}
+
+connection.onReferences((params: ReferenceParams, token): Location[] => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+	throwIfCancelled(token);
+	getAnalysis(document);
+
+	const target = getWordRangeAtPosition(document, params.position);
+	if (!target) {
+		return [];
+	}
+	return findReferences(
+		params.textDocument.uri,
+		target.word,
+		params.position,
+		params.context.includeDeclaration
+	);
+});
+
+// Built-ins and reserved variables belong to AmiBroker and cannot be renamed
+function checkRenameTarget(uri: string, word: string, position: Position): string | null {
+	if (getBuiltinFunction(word)) {
+		return `'${word}' is an AmiBroker built-in function and cannot be renamed.`;
+	}
+	if (isReservedVariable(word)) {
+		return `'${word}' is a reserved AmiBroker variable and cannot be renamed.`;
+	}
+	if (!resolveSymbol(uri, word, position)) {
+		return `'${word}' is not declared in this formula or its includes.`;
+	}
+	return null;
+}
+
+connection.onPrepareRename((params: PrepareRenameParams) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const target = getWordRangeAtPosition(document, params.position);
+	if (!target) {
+		return null;
+	}
+	const problem = checkRenameTarget(params.textDocument.uri, target.word, params.position);
+	if (problem) {
+		throw new ResponseError(ErrorCodes.InvalidRequest, problem);
+	}
+	return target.range;
+});
+
+connection.onRenameRequest((params: RenameParams, token): WorkspaceEdit | null => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+	throwIfCancelled(token);
+
+	const target = getWordRangeAtPosition(document, params.position);
+	if (!target) {
+		return null;
+	}
+	const problem = checkRenameTarget(params.textDocument.uri, target.word, params.position);
+	if (problem) {
+		throw new ResponseError(ErrorCodes.InvalidRequest, problem);
+	}
+	if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(params.newName)) {
+		throw new ResponseError(ErrorCodes.InvalidParams, `'${params.newName}' is not a valid AFL identifier.`);
+	}
+	if (getBuiltinFunction(params.newName) || isReservedVariable(params.newName)) {
+		throw new ResponseError(ErrorCodes.InvalidParams, `'${params.newName}' is reserved by AmiBroker.`);
+	}
+	throwIfCancelled(token);
+
+	const changes: Record<string, TextEdit[]> = {};
+	for (const location of findReferences(params.textDocument.uri, target.word, params.position, true)) {
+		(changes[location.uri] ??= []).push(TextEdit.replace(location.range, params.newName));
+	}
+	return { changes };
+});
+
 interface AflLspSettings {
 	maxNumberOfProblems: number;
+	// Severity override per rule id, see `rules` in ./rules
+	rules: Partial<Record<string, RuleSeveritySetting>>;
+	// Folder used to resolve `#include <file>` directives
+	includeRoot: string;
+	format: FormatSettings;
+	inlayHints: InlayHintSettings;
 }
 
 // The global settings, used when the `workspace/configuration` request is not supported by the client.
 // Please note that this is not the case when using this server with the client provided in this example
 // but could happen with other clients.
-const defaultSettings: AflLspSettings = { maxNumberOfProblems: 1000 };
+const defaultSettings: AflLspSettings = {
+	maxNumberOfProblems: 1000,
+	rules: {},
+	includeRoot: "C:\\Program Files\\AmiBroker\\Formulas\\Include",
+	format: defaultFormatSettings,
+	inlayHints: defaultInlayHintSettings,
+};
 let globalSettings: AflLspSettings = defaultSettings;
 
 // Cache the settings of all open documents
@@ -172,15 +476,17 @@ connection.onDidChangeConfiguration((change) => {
 		// Reset all cached document settings
 		documentSettings.clear();
 	} else {
-		globalSettings = change.settings.languageServerExample || defaultSettings;
+		globalSettings = change.settings.aflLsp || defaultSettings;
 	}
 	// Refresh the diagnostics since the `maxNumberOfProblems` could have changed.
 	// We could optimize things here and re-fetch the setting first can compare it
 	// to the existing setting, but this is out of scope for this example.
 	connection.languages.diagnostics.refresh();
+	if (hasInlayHintRefreshCapability) {
+		connection.languages.inlayHint.refresh();
+	}
 });
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 function getDocumentSettings(resource: string): Thenable<AflLspSettings> {
 	if (!hasConfigurationCapability) {
 		return Promise.resolve(globalSettings);
@@ -202,15 +508,33 @@ export function getDocuments(): TextDocuments<TextDocument> {
 
 // Only keep settings for open documents
 documents.onDidClose((e) => {
-	documentSettings.delete(e.document.uri);
+	const uri = e.document.uri;
+	documentSettings.delete(uri);
+	semanticTokenBuilders.delete(uri);
+	cancelSymbolUpdate(uri);
+	evictAnalysis(uri);
+
+	// Unsaved edits are discarded, so go back to the file on disk
+	const text = readFileText(uri);
+	if (text !== null) {
+		indexDocument(uri, text);
+	} else {
+		removeFromIndex(uri);
+	}
+	// Documents that include the file keep seeing its declarations
+	if (text !== null && isIncludedByOtherDocuments(uri)) {
+		analyzeText(text, uri);
+	} else {
+		removeDocumentTable(uri);
+	}
 });
 
-connection.languages.diagnostics.on(async (params) => {
+connection.languages.diagnostics.on(async (params, token) => {
 	const document = documents.get(params.textDocument.uri);
 	if (document !== undefined) {
 		return {
 			kind: DocumentDiagnosticReportKind.Full,
-			items: await validateTextDocument(document),
+			items: await validateTextDocument(document, token),
 		} satisfies DocumentDiagnosticReport;
 	} else {
 		// We don't know the document. We can either try to read it from disk
@@ -224,127 +548,502 @@ connection.languages.diagnostics.on(async (params) => {
 
 // The content of a text document has changed. This event is emitted
 // when the text document first opened or when its content has changed.
-documents.onDidChangeContent((change) => {
-	validateTextDocument(change.document);
+// Clients with pull diagnostics re-request them on change, the others get them pushed.
+documents.onDidChangeContent(async (change) => {
+	if (hasDiagnosticPullCapability) {
+		return;
+	}
+	const diagnostics = await validateTextDocument(change.document);
+	connection.sendDiagnostics({ uri: change.document.uri, diagnostics });
 });
 
 async function validateTextDocument(
-	_textDocument: TextDocument
+	textDocument: TextDocument,
+	token?: CancellationToken
 ): Promise<Diagnostic[]> {
-	// In this simple example we get the settings for every validate run.
-
-	// const settings = await getDocumentSettings(textDocument.uri);
+	const settings = await getDocumentSettings(textDocument.uri);
+	if (token) {
+		throwIfCancelled(token);
+	}
+	const analysis = getAnalysis(textDocument);
+	const diagnostics = lintText(
+		textDocument.uri,
+		analysis.text,
+		{
+			rules: settings?.rules ?? {},
+			includeRoot: settings?.includeRoot ?? defaultSettings.includeRoot,
+			readText: readDocumentText,
+			maxProblems: settings?.maxNumberOfProblems ?? defaultSettings.maxNumberOfProblems,
+		},
+		analysis
+	);
+	if (!hasDiagnosticRelatedInformationCapability) {
+		diagnostics.forEach((diagnostic) => delete diagnostic.relatedInformation);
+	}
+	return diagnostics;
+}
 
-	// The validator creates diagnostics for all uppercase words length 2 and more
-	// const text = textDocument.getText();
+// Keep the workspace index and the symbols of included files in sync with .afl files changed outside the editor
+connection.onDidChangeWatchedFiles((change) => {
+	let includedFileChanged = false;
+	for (const event of change.changes) {
+		// Include graphs hold URIs built from paths, which the editor may encode differently
+		const path = uriToPath(event.uri);
+		const uri = path !== null ? pathToUri(path) : event.uri;
+		// Open documents are analyzed and indexed from their buffer as they change
+		if (documents.get(event.uri) || documents.get(uri)) {
+			continue;
+		}
+		includedFileChanged ||= isIncludedByOtherDocuments(uri);
 
-	// Here we would typically analyze the text and create diagnostics.
-	const diagnostics: Diagnostic[] = [];
+		const text = event.type === FileChangeType.Deleted ? null : readFileText(event.uri);
+		if (text === null) {
+			removeFromIndex(event.uri);
+			removeDocumentTable(uri);
+			continue;
+		}
+		indexDocument(event.uri, text);
+		if (getDocumentTable(uri)) {
+			analyzeText(text, uri);
+		}
+	}
 
-	// Send the computed diagnostics to VSCode UI.
-	return diagnostics;
-}
+	// The documents that include a changed file see its new declarations and includes
+	if (includedFileChanged) {
+		invalidateIncludes();
+		connection.languages.diagnostics.refresh();
+		if (hasSemanticTokensRefreshCapability) {
+			connection.languages.semanticTokens.refresh();
+		}
+		if (hasInlayHintRefreshCapability) {
+			connection.languages.inlayHint.refresh();
+		}
+	}
+});
 
-connection.onDidChangeWatchedFiles((_change) => {
-	// Monitored files have change in VSCode
-	connection.console.log("We received a file change event");
+connection.onWorkspaceSymbol((params: WorkspaceSymbolParams, token): SymbolInformation[] => {
+	throwIfCancelled(token);
+	return searchWorkspaceSymbols(params.query);
 });
 
-connection.onCompletion((_params) => {
-	const completions: CompletionItem[] = [];
-	for (const [name] of symbolTable.entries()) {
-		completions.push({
-			label: name,
-			kind: CompletionItemKind.Function,
-			data: name,
-		});
+connection.onCompletion((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
 	}
-	return completions;
+	getAnalysis(document);
+	return getCompletions(document, params.position, getVisibleSymbols(params.textDocument.uri, params.position));
 });
 
 // This handler resolves additional information for the item selected in
 // the completion list.
 connection.onCompletionResolve((item: CompletionItem): CompletionItem => {
-	if (item.data === 1) {
-		item.detail = "TypeScript details";
-		item.documentation = "TypeScript documentation";
-	} else if (item.data === 2) {
-		item.detail = "JavaScript details";
-		item.documentation = "JavaScript documentation";
+	const builtinName = item.data?.builtin;
+	if (typeof builtinName === "string") {
+		const fn = getBuiltinFunction(builtinName);
+		if (fn) {
+			item.detail = formatSignature(fn);
+			item.documentation = getBuiltinDocumentation(fn);
+		}
 	}
 	return item;
 });
 
-connection.onHover((params): Hover | null => {
+connection.onSignatureHelp((params: SignatureHelpParams, token): SignatureHelp | null => {
 	const document = documents.get(params.textDocument.uri);
 	if (!document) {
 		return null;
 	}
+	throwIfCancelled(token);
 
-	const lines = document.getText().split(/\r?\n/);
-	const line = lines[params.position.line];
-	const word = getWordAtPosition(line, params.position.character);
-	if (!word) {
+	const context = getCallContext(document.getText(), document.offsetAt(params.position));
+	if (!context) {
 		return null;
 	}
 
-	const info = getSymbolInfo(word);
-	if (!info) {
+	const fn = getBuiltinFunction(context.name);
+	if (!fn) {
 		return null;
 	}
 
+	// Keep the last parameter highlighted for variadic calls such as printf
+	const lastParameter = Math.max(fn.params.length - 1, 0);
 	return {
-		contents: {
-			kind: MarkupKind.Markdown,
-			value: `**${word}**\n\n${info}`,
-		},
+		signatures: [getSignatureInformation(fn)],
+		activeSignature: 0,
+		activeParameter: fn.variadic ? Math.min(context.activeParameter, lastParameter) : context.activeParameter,
 	};
 });
 
-connection.onCodeAction((params: CodeActionParams): CodeAction[] => {
+connection.onHover((params, token): Hover | null => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+	throwIfCancelled(token);
+	const analysis = getAnalysis(document);
+
+	const target = getWordRangeAtPosition(document, params.position);
+	if (!target) {
+		return null;
+	}
+	const { word, range } = target;
+
+	const binding = resolveSymbol(params.textDocument.uri, word, params.position);
+	if (binding) {
+		const types = getTypes(analysis);
+		const label = getBindingLabel(binding);
+		const offset = document.offsetAt(range.start);
+		// Value of a variable holding a constant at this point, e.g. `Threshold: number = 28`
+		const constant = getConstants(analysis)?.identifiers.get(offset);
+		const value = constant ? ` = ${formatConstant(constant.value)}${constant.fromParam ? " (Param default)" : ""}` : "";
+		const signature = binding.kind === "function"
+			? `${label} ${binding.name}( ${binding.params?.join(", ") ?? ""} ): ${types?.functions.get(binding.name.toLowerCase()) ?? "unknown"}`
+			: `${label} ${word}: ${types?.identifiers.get(offset) ?? "unknown"}${value}`;
+		return {
+			contents: {
+				kind: MarkupKind.Markdown,
+				value: ["```afl", signature, "```"].join("\n"),
+			},
+			range,
+		};
+	}
+
+	const fn = getBuiltinFunction(word);
+	if (fn) {
+		return { contents: getBuiltinDocumentation(fn) };
+	}
+	return null;
+});
+
+connection.onCodeAction(async (params: CodeActionParams, token): Promise<CodeAction[]> => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	const only = params.context.only;
+	const wants = (kind: string) => !only || only.some((requested) => kind === requested || kind.startsWith(`${requested}.`));
+
 	const actions: CodeAction[] = [];
-	for (const diagnostic of params.context.diagnostics) {
-		if (diagnostic.message.includes("space before ')'")) {
-			const action = fixFunctionSapces(params, diagnostic);
+	if (wants(CodeActionKind.QuickFix)) {
+		for (const diagnostic of params.context.diagnostics) {
+			const action = getRule(diagnostic.code)?.fix?.(document, diagnostic);
 			if (action) {
 				actions.push(action);
 			}
 		}
 	}
+
+	if (wants(FIX_ALL_KIND)) {
+		// Fix every problem in the file, not only the ones in the requested range
+		const edits = getFixAllEdits(document, await validateTextDocument(document, token));
+		if (edits.length > 0) {
+			actions.push({
+				title: "Fix all auto-fixable AFL problems",
+				kind: FIX_ALL_KIND,
+				edit: { changes: { [document.uri]: edits } },
+			});
+		}
+	}
 	return actions;
 });
 
-connection.onDocumentSymbol((params): DocumentSymbol[] => {
+connection.onDocumentSymbol((params, token): DocumentSymbol[] => {
 	const document = documents.get(params.textDocument.uri);
 	if (!document) {
 		return [];
 	}
+	throwIfCancelled(token);
 
 	const results: DocumentSymbol[] = [];
-	const text = document.getText();
-	const aflParser = Parser.extend(AFLParser as never);
-	const ast = aflParser.parse(text, {
-		ecmaVersion: 6,
-		sourceType: "module",
-		locations: true,
-	});
-
-	// Iterate through the AST tokens and create DocumentSymbols
+	// Syntax errors are reported as diagnostics; the outline uses whatever could be recovered
+	const { ast } = getAnalysis(document);
+	if (!ast) {
+		return results;
+	}
+
+	// Iterate through the AST tokens and create DocumentSymbols.
+	// Statements between _SECTION_BEGIN and _SECTION_END are nested under the section.
 	const body = Array.isArray(ast.body) ? ast.body : [];
+	const seen = new Set<string>();
+	const sections: DocumentSymbol[] = [];
 	for (const node of body) {
-		const symbol = nodeToDocumentSymbol(node);
+		const container = sections.length > 0 ? sections[sections.length - 1].children! : results;
+		const section = getSectionMarker(node);
+		if (section?.kind === "begin") {
+			const symbol = DocumentSymbol.create(
+				section.name,
+				"section",
+				SymbolKind.Namespace,
+				section.range,
+				section.range,
+				[]
+			);
+			container.push(symbol);
+			sections.push(symbol);
+			continue;
+		}
+		if (section?.kind === "end") {
+			const closed = sections.pop();
+			if (closed) {
+				closed.range = Range.create(closed.range.start, section.range.end);
+			}
+			continue;
+		}
+
+		const symbol = nodeToDocumentSymbol(node, seen);
 		if (symbol) {
 			if (Array.isArray(symbol)) {
-				results.push(...symbol);
+				container.push(...symbol);
 			} else {
-				results.push(symbol);
+				container.push(symbol);
 			}
 		}
 	}
 
+	// A section left open runs to the end of the document
+	for (const open of sections) {
+		open.range = Range.create(open.range.start, document.positionAt(document.getText().length));
+	}
+
 	return results;
 });
 
+connection.onFoldingRanges((params, token): FoldingRange[] => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+	throwIfCancelled(token);
+	const { text, ast } = getAnalysis(document);
+	return getFoldingRanges(text, ast);
+});
+
+connection.onDocumentLinks(async (params): Promise<DocumentLink[]> => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	const includes = await getIncludeGraph(document);
+	return includes.links.map((link) => DocumentLink.create(link.range, link.target));
+});
+
+async function getFormatSettings(uri: string): Promise<FormatSettings> {
+	const settings = await getDocumentSettings(uri);
+	return { ...defaultFormatSettings, ...settings?.format };
+}
+
+connection.onDocumentFormatting(async (params: DocumentFormattingParams): Promise<TextEdit[]> => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+	return formatDocument(document.getText(), params.options, await getFormatSettings(document.uri));
+});
+
+connection.onDocumentRangeFormatting(async (params: DocumentRangeFormattingParams): Promise<TextEdit[]> => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+	return formatRange(document.getText(), params.range, params.options, await getFormatSettings(document.uri));
+});
+
+// Last result per document, which delta requests are computed against
+const semanticTokenBuilders = new Map<string, SemanticTokensBuilder>();
+
+function getSemanticTokensBuilder(uri: string): SemanticTokensBuilder {
+	let builder = semanticTokenBuilders.get(uri);
+	if (!builder) {
+		builder = new SemanticTokensBuilder();
+		semanticTokenBuilders.set(uri, builder);
+	}
+	return builder;
+}
+
+function pushSemanticTokens(document: TextDocument, builder: SemanticTokensBuilder): void {
+	const { text, symbols } = getAnalysis(document);
+	for (const token of getSemanticTokens(text, symbols)) {
+		builder.push(token.line, token.character, token.length, token.tokenType, token.tokenModifiers);
+	}
+}
+
+connection.languages.semanticTokens.on((params, token): SemanticTokens => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return { data: [] };
+	}
+	throwIfCancelled(token);
+	// A full request starts over: the builder keeps its data and last line between builds
+	const builder = new SemanticTokensBuilder();
+	semanticTokenBuilders.set(document.uri, builder);
+	pushSemanticTokens(document, builder);
+	return builder.build();
+});
+
+connection.languages.semanticTokens.onDelta((params, token): SemanticTokens | SemanticTokensDelta => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return { edits: [] };
+	}
+	throwIfCancelled(token);
+	const builder = getSemanticTokensBuilder(document.uri);
+	builder.previousResult(params.previousResultId);
+	pushSemanticTokens(document, builder);
+	return builder.buildEdits();
+});
+
+connection.languages.inlayHint.on(async (params, token): Promise<InlayHint[]> => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+	const settings = await getDocumentSettings(document.uri);
+	throwIfCancelled(token);
+	return getInlayHints(
+		getAnalysis(document),
+		params.range,
+		{ ...defaultInlayHintSettings, ...settings?.inlayHints },
+		(name, position) => {
+			const binding = resolveSymbol(document.uri, name, position);
+			if (binding) {
+				return binding.params ?? null;
+			}
+			return getBuiltinFunction(name)?.params.map((param) => param.name) ?? null;
+		}
+	);
+});
+
+// Parsed text of a file, from the analysis cache when the file is open
+function parseFile(uri: string): { text: string; ast: Program | null } {
+	const document = documents.get(uri);
+	if (document) {
+		return getAnalysis(document);
+	}
+	const text = readDocumentText(uri) ?? "";
+	return { text, ast: parseText(text).ast };
+}
+
+// Resolves function names called in a file to their declaration, in the file itself or in its includes
+async function getFunctionResolver(uri: string, text: string, ast: Program): Promise<(name: string) => CallHierarchyItem | null> {
+	const includes = await getIncludeGraphOf(uri, text);
+	const included = includes.documents.map((includedUri) => ({
+		uri: includedUri,
+		ast: parseFile(includedUri).ast,
+	}));
+	return (name) => {
+		const own = findFunctionDeclaration(ast, name);
+		if (own) {
+			return functionItem(uri, own);
+		}
+		for (const file of included) {
+			const fn = file.ast && findFunctionDeclaration(file.ast, name);
+			if (fn) {
+				return functionItem(file.uri, fn);
+			}
+		}
+		return null;
+	};
+}
+
+function isSameFile(a: string, b: string): boolean {
+	return a === b || (uriToPath(a) ?? a) === (uriToPath(b) ?? b);
+}
+
+connection.languages.callHierarchy.onPrepare(async (params, token): Promise<CallHierarchyItem[] | null> => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+	throwIfCancelled(token);
+	const target = getWordRangeAtPosition(document, params.position);
+	const { text, ast } = getAnalysis(document);
+	if (!target || !ast) {
+		return null;
+	}
+	const resolveFunction = await getFunctionResolver(document.uri, text, ast);
+	throwIfCancelled(token);
+	const item = resolveFunction(target.word);
+	return item ? [item] : null;
+});
+
+connection.languages.callHierarchy.onOutgoingCalls(async (params, token): Promise<CallHierarchyOutgoingCall[]> => {
+	const { item } = params;
+	throwIfCancelled(token);
+	const { text, ast } = parseFile(item.uri);
+	if (!ast) {
+		return [];
+	}
+	const resolve = await getFunctionResolver(item.uri, text, ast);
+
+	// Calls are grouped by the function they go to
+	const calls = new Map<string, CallHierarchyOutgoingCall>();
+	for (const site of findCallSites(ast)) {
+		const fromItem = item.kind === SymbolKind.File
+			? site.caller === null
+			: site.caller?.id.name.toLowerCase() === item.name.toLowerCase();
+		const to = fromItem ? resolve(site.name) : null;
+		if (!to) {
+			continue;
+		}
+		const key = `${to.uri}#${to.name.toLowerCase()}`;
+		const call = calls.get(key) ?? { to, fromRanges: [] };
+		call.fromRanges.push(site.range);
+		calls.set(key, call);
+	}
+	return [...calls.values()];
+});
+
+connection.languages.callHierarchy.onIncomingCalls(async (params, token): Promise<CallHierarchyIncomingCall[]> => {
+	const { item } = params;
+	const lowerName = item.name.toLowerCase();
+
+	// Open documents and every indexed workspace file, each file once
+	const files: string[] = [];
+	for (const uri of [...documents.all().map((doc) => doc.uri), ...getIndexedFiles()]) {
+		if (!files.some((file) => isSameFile(file, uri))) {
+			files.push(uri);
+		}
+	}
+
+	const calls: CallHierarchyIncomingCall[] = [];
+	for (const uri of files) {
+		throwIfCancelled(token);
+		const { text, ast } = parseFile(uri);
+		const sites = ast ? findCallSites(ast).filter((site) => site.name.toLowerCase() === lowerName) : [];
+		if (!ast || sites.length === 0) {
+			continue;
+		}
+		// The file may call a different function of the same name, declared in it or in its own includes
+		const target = (await getFunctionResolver(uri, text, ast))(item.name);
+		if (!target || !isSameFile(target.uri, item.uri)) {
+			continue;
+		}
+
+		// Calls are grouped by the function they are made from
+		const byCaller = new Map<FunctionDeclaration | null, CallHierarchyIncomingCall>();
+		for (const site of sites) {
+			const call = byCaller.get(site.caller)
+				?? { from: site.caller ? functionItem(uri, site.caller) : formulaItem(uri, ast), fromRanges: [] };
+			call.fromRanges.push(site.range);
+			byCaller.set(site.caller, call);
+		}
+		calls.push(...byCaller.values());
+	}
+	return calls;
+});
+
+connection.onRequest(PARAM_INVENTORY_REQUEST, (params: { textDocument: { uri: string } }): ParamInventory | null => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+	const { text, ast } = getAnalysis(document);
+	return { uri: document.uri, params: ast ? getParamInventory(ast, text) : [] };
+});
+
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
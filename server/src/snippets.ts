@@ -0,0 +1,104 @@
+import { CompletionItem, CompletionItemKind, InsertTextFormat, MarkupKind } from 'vscode-languageserver';
+
+export interface AflSnippet {
+	// Word typed to pick the snippet
+	prefix: string;
+	description: string;
+	// Lines in the LSP snippet syntax: $1 tab stops, ${1:default} placeholders
+	body: string[];
+}
+
+export const AFL_SNIPPETS: AflSnippet[] = [
+	{
+		prefix: 'section',
+		description: 'Named section, shown as a group in the Parameters dialog',
+		body: [
+			'_SECTION_BEGIN( "${1:Name}" );',
+			'$0',
+			'_SECTION_END();',
+		],
+	},
+	{
+		prefix: 'system',
+		description: 'Trading system with backtest options, entry and exit signals, stops and position size',
+		body: [
+			'SetOption( "InitialEquity", ${1:100000} );',
+			'SetOption( "MaxOpenPositions", ${2:10} );',
+			'SetOption( "CommissionMode", 1 );',
+			'SetOption( "CommissionAmount", ${3:0.1} );',
+			'SetTradeDelays( 1, 1, 1, 1 );',
+			'BuyPrice = SellPrice = ShortPrice = CoverPrice = Open;',
+			'',
+			'Fast = MA( Close, ${4:10} );',
+			'Slow = MA( Close, ${5:50} );',
+			'',
+			'Buy = Cross( Fast, Slow );',
+			'Sell = Cross( Slow, Fast );',
+			'Short = Sell;',
+			'Cover = Buy;',
+			'',
+			'ApplyStop( stopTypeLoss, stopModePercent, ${6:5} );',
+			'PositionSize = -${7:10};',
+			'$0',
+		],
+	},
+	{
+		prefix: 'indicator',
+		description: 'Indicator with its period and color taken from the Parameters dialog',
+		body: [
+			'_SECTION_BEGIN( "${1:Moving Average}" );',
+			'Periods = Param( "Periods", ${2:15}, 2, 200, 1 );',
+			'Color = ParamColor( "Color", ${3:colorBlue} );',
+			'Style = ParamStyle( "Style", styleLine );',
+			'Plot( ${4:MA}( Close, Periods ), "${1:Moving Average}(" + Periods + ")", Color, Style );',
+			'_SECTION_END();',
+			'$0',
+		],
+	},
+	{
+		prefix: 'exploration',
+		description: 'Exploration with a Filter and result columns',
+		body: [
+			'Filter = ${1:Close > MA( Close, 50 )};',
+			'AddColumn( Close, "Close", 1.2 );',
+			'AddColumn( Volume, "Volume", 1.0 );',
+			'AddColumn( ${2:ROC( Close, 20 )}, "${3:ROC 20}", 1.2 );',
+			'SetSortColumns( -${4:3} );',
+			'$0',
+		],
+	},
+	{
+		prefix: 'forbar',
+		description: 'Loop over every bar',
+		body: [
+			'for ( ${1:i} = ${2:0}; ${1:i} < BarCount; ${1:i}++ )',
+			'{',
+			'\t$0',
+			'}',
+		],
+	},
+];
+
+// Shows a snippet line as it is inserted, with the placeholders at their defaults
+function previewLine(line: string): string {
+	return line.replace(/\$\{\d+:([^}]*)\}/g, '$1').replace(/\$\d+/g, '');
+}
+
+/**
+ * Completion items for the snippets. They sort after symbols and built-ins, so that typing
+ * a name is never replaced by a template.
+ */
+export function getSnippetCompletions(): CompletionItem[] {
+	return AFL_SNIPPETS.map(snippet => ({
+		label: snippet.prefix,
+		kind: CompletionItemKind.Snippet,
+		detail: snippet.description,
+		documentation: {
+			kind: MarkupKind.Markdown,
+			value: ['```afl', ...snippet.body.map(previewLine), '```'].join('\n'),
+		},
+		insertText: snippet.body.join('\n'),
+		insertTextFormat: InsertTextFormat.Snippet,
+		sortText: `~${snippet.prefix}`,
+	}));
+}
@@ -1,104 +1,435 @@
-import { Location, Range } from 'vscode-languageserver';
-import type { AnyNode, Program, Identifier, VariableDeclarator } from 'acorn';
-import { getAST } from './util';
+import { Location, Position, Range } from 'vscode-languageserver';
+import type { AnyNode, Program, Identifier, VariableDeclarator, Node } from 'acorn';
+import { getAST, forEachChild } from './util';
 import { AST_NODE_TYPES } from "@typescript-eslint/types";
 
-export const symbolTable = new Map<string, Location>();
-const symbolInfoMap = new Map<string, string>();
-const astMap = new Map<string, AnyNode>();
+export type BindingKind = 'function' | 'parameter' | 'variable';
+// How the binding was introduced: AFL `global`/`local`/`static`, JS-style `var`, a function/parameter,
+// or `implicit` for the first plain assignment (`Fast = MA( C, 10 );`), which is how AFL code usually declares
+export type DeclarationKind = 'function' | 'parameter' | 'global' | 'local' | 'static' | 'var' | 'implicit';
+export type ReferenceAccess = 'read' | 'write' | 'readwrite';
 
-export function analyzeText(text: string, uri: string, clearCache?: boolean): Map<string, Location> {
-	const table = new Map<string, Location>();
+export interface SymbolBinding {
+	name: string;
+	kind: BindingKind;
+	declarationKind: DeclarationKind;
+	loc: Location;
+	scope: Scope;
+	info: string;
+	// Assignments after the declaring one
+	writes: Range[];
+	// Parameter names, for function bindings
+	params?: string[];
+}
 
-	let ast = astMap.get(uri);
+export interface Scope {
+	kind: 'document' | 'function';
+	// Name of the function for function scopes
+	name?: string;
+	range: Range;
+	parent: Scope | null;
+	// Keyed by lower-case name, since AFL names ignore case: `close` and `Close` are one variable
+	bindings: Map<string, SymbolBinding>;
+	children: Scope[];
+}
 
-	// If the AST is not cached or clearCache is true, parse it
-	if (!ast || clearCache) {
-		ast = getAST(text) as AnyNode;
-	}
+export interface SymbolReference {
+	name: string;
+	range: Range;
+	access: ReferenceAccess;
+	// Null when the name is not declared in the document (built-ins, price arrays, typos)
+	binding: SymbolBinding | null;
+}
 
-	// If the AST is successfully parsed, cache it
-	if (ast) {
-		astMap.set(uri, ast);
-	} else {
+export interface DocumentSymbolTable {
+	uri: string;
+	root: Scope;
+	references: SymbolReference[];
+}
+
+const documentTables = new Map<string, DocumentSymbolTable>();
+// URIs of the files each document includes, directly or indirectly
+const documentIncludes = new Map<string, string[]>();
+
+/**
+ * Builds the symbol table of a document and makes it the one used for lookups in that
+ * document. Callers holding a parsed AST pass it in to avoid parsing the text again.
+ */
+export function analyzeText(text: string, uri: string, ast: AnyNode | null = getAST(text)): DocumentSymbolTable {
+	if (!ast) {
 		console.error(`Failed to parse AST for URI: ${uri}`);
+	}
+	const table = buildSymbolTable(ast, text, uri);
+	documentTables.set(uri, table);
+	return table;
+}
+
+/**
+ * Builds the scopes, bindings and resolved references of a parsed document without
+ * storing them, for callers such as the rules that work on their own copy of the AST.
+ */
+export function buildSymbolTable(ast: AnyNode | null, text: string, uri: string): DocumentSymbolTable {
+	const lineCount = text.split(/\r?\n/).length;
+	const root = createScope('document', Range.create(0, 0, lineCount, 0), null);
+	const table: DocumentSymbolTable = { uri, root, references: [] };
+	if (!ast) {
 		return table;
 	}
 
-	// Iterate through the AST to find symbols
-	if (ast?.type === AST_NODE_TYPES.Program) {
-		const program = ast as Program;
+	const pending: PendingReference[] = [];
+	if (ast.type === AST_NODE_TYPES.Program) {
 		// Iterate through the body of the program
-		program.body.forEach((node, _i) => {
-			processNode(node, uri, table, symbolInfoMap);
+		(ast as Program).body.forEach((node) => {
+			analyzeNode(node, root, uri, pending);
 		});
 	} else {
 		// If the AST is not a Program, we assume it's a single node
-		processNode(ast, uri, table, symbolInfoMap);
+		analyzeNode(ast, root, uri, pending);
+	}
+
+	// Resolve once every declaration is known, so functions can be called before they are defined
+	for (const ref of pending) {
+		table.references.push({ name: ref.name, range: ref.range, access: ref.access, binding: lookup(ref.scope, ref.name) });
 	}
 	return table;
 }
 
-function processNode(node: AnyNode, uri: string, table: Map<string, Location>, symbolInfoMap: Map<string, string>): void {
-	const nodeInfo = analyzeNode(node, uri);
-	nodeInfo?.forEach(info => {
-		table.set(info.name, info.loc);
-		symbolInfoMap.set(info.name, info.info);
-	});
+export function getDocumentTable(uri: string): DocumentSymbolTable | undefined {
+	return documentTables.get(uri);
+}
+
+// Forgets the symbols of a document, e.g. once it is closed and no other document includes it
+export function removeDocumentTable(uri: string): void {
+	documentTables.delete(uri);
+	documentIncludes.delete(uri);
+}
+
+export function setDocumentIncludes(uri: string, includes: string[]): void {
+	documentIncludes.set(uri, includes);
+}
+
+export function getDocumentIncludes(uri: string): string[] {
+	return documentIncludes.get(uri) ?? [];
 }
 
-function analyzeNode(node: AnyNode, uri: string): SymbolInfo[] | null {
-	const symbolInfoArr: SymbolInfo[] = [];
-	if (node.type === AST_NODE_TYPES.FunctionDeclaration && node.id && typeof node.id.name === 'string' && node.loc) {
-		const identifier: Identifier = node.id as Identifier;
-		const funcInfo = analyzeNode(identifier, uri);
-		if (funcInfo) {
-			symbolInfoArr.push(...funcInfo);
+// Whether another analyzed document includes `uri`, directly or indirectly
+export function isIncludedByOtherDocuments(uri: string): boolean {
+	for (const [includingUri, includes] of documentIncludes) {
+		if (includingUri !== uri && includes.includes(uri)) {
+			return true;
 		}
+	}
+	return false;
+}
+
+// Looks a name up in the document-level scope of the included files
+export function lookupIncluded(uri: string, name: string): SymbolBinding | null {
+	for (const includedUri of getDocumentIncludes(uri)) {
+		const binding = documentTables.get(includedUri)?.root.bindings.get(symbolKey(name));
+		if (binding) {
+			return binding;
+		}
+	}
+	return null;
+}
+
+interface PendingReference {
+	name: string;
+	range: Range;
+	access: ReferenceAccess;
+	scope: Scope;
+}
+
+function createScope(kind: Scope['kind'], range: Range, parent: Scope | null, name?: string): Scope {
+	const scope: Scope = { kind, name, range, parent, bindings: new Map(), children: [] };
+	parent?.children.push(scope);
+	return scope;
+}
+
+function toRange(node: Node): Range {
+	const loc = node.loc!;
+	return Range.create(loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column);
+}
+
+function declare(
+	scope: Scope,
+	identifier: Identifier,
+	uri: string,
+	kind: BindingKind,
+	declarationKind: DeclarationKind
+): SymbolBinding {
+	const binding: SymbolBinding = {
+		name: identifier.name,
+		kind,
+		declarationKind,
+		loc: Location.create(uri, toRange(identifier)),
+		scope,
+		info: describeBinding(kind, declarationKind, scope, identifier),
+		writes: [],
+	};
+	scope.bindings.set(symbolKey(identifier.name), binding);
+	return binding;
+}
+
+function bindingLabel(kind: BindingKind, declarationKind: DeclarationKind, scope: Scope): string {
+	if (kind === 'function') {
+		return '(function)';
+	}
+	if (kind === 'parameter') {
+		return `(parameter of ${scope.name})`;
+	}
+	const where = scope.kind === 'function' ? `local to ${scope.name}` : 'global';
+	if (declarationKind === 'implicit') {
+		return `(variable, ${where})`;
+	}
+	return `(${declarationKind} variable, ${where})`;
+}
+
+function describeBinding(kind: BindingKind, declarationKind: DeclarationKind, scope: Scope, identifier: Identifier): string {
+	const line = identifier.loc!.start.line;
+	const label = bindingLabel(kind, declarationKind, scope);
+	if (kind === 'variable' && declarationKind === 'implicit') {
+		return `${label} first assigned at line ${line}`;
+	}
+	return `${label} declared at line ${line}`;
+}
+
+// Kind of symbol as shown on hover, e.g. "(parameter of Smooth)" or "(variable, global)"
+export function getBindingLabel(binding: SymbolBinding): string {
+	return bindingLabel(binding.kind, binding.declarationKind, binding.scope);
+}
+
+// Calls `callback` once for each binding declared in `scope` or its children
+export function forEachBinding(scope: Scope, callback: (binding: SymbolBinding) => void): void {
+	for (const binding of scope.bindings.values()) {
+		// `global x;` inside a function shares the binding of the document scope
+		if (binding.scope === scope) {
+			callback(binding);
+		}
+	}
+	scope.children.forEach(child => forEachBinding(child, callback));
+}
+
+// Key of a name in `Scope.bindings`
+export function symbolKey(name: string): string {
+	return name.toLowerCase();
+}
+
+function lookup(scope: Scope | null, name: string): SymbolBinding | null {
+	for (let current = scope; current; current = current.parent) {
+		const binding = current.bindings.get(symbolKey(name));
+		if (binding) {
+			return binding;
+		}
+	}
+	return null;
+}
+
+function declarationKindOf(node: { kind?: string }): DeclarationKind {
+	switch (node.kind) {
+		case 'global':
+		case 'local':
+		case 'static':
+			return node.kind;
+		default:
+			return 'var';
+	}
+}
+
+function analyzeNode(node: AnyNode, scope: Scope, uri: string, pending: PendingReference[]): void {
+	if (node.type === AST_NODE_TYPES.FunctionDeclaration && node.id && node.loc) {
+		const fnBinding = declare(scope, node.id as Identifier, uri, 'function', 'function');
+		const fnScope = createScope('function', toRange(node), scope, node.id.name);
+
+		// Parameters live in the function scope
+		fnBinding.params = [];
+		node.params.forEach((param: AnyNode) => {
+			if (param.type === AST_NODE_TYPES.Identifier && param.loc) {
+				declare(fnScope, param, uri, 'parameter', 'parameter');
+				fnBinding.params!.push(param.name);
+			}
+		});
 
 		// If the function has a body, analyze its body for further symbols
 		if (node.body && Array.isArray(node.body.body)) {
 			node.body.body.forEach((childNode: AnyNode) => {
-				const childInfo = analyzeNode(childNode, uri);
-				if (childInfo) {
-					symbolInfoArr.push(...childInfo);
-				}
-			});
-		}
-
-		// If the function has parameters, analyze them as well
-		if (Array.isArray(node.params)) {
-			node.params.forEach((param: AnyNode) => {
-				const paramInfo = analyzeNode(param, uri);
-				if (paramInfo) {
-					symbolInfoArr.push(...paramInfo);
-				}
+				analyzeNode(childNode, fnScope, uri, pending);
 			});
 		}
 	} else if (node.type === AST_NODE_TYPES.VariableDeclaration) {
+		const declarationKind = declarationKindOf(node);
 		node.declarations.forEach((decl: VariableDeclarator) => {
-			const identifier: Identifier = decl.id as Identifier;
-			const declInfo = analyzeNode(identifier, uri);
-			if (declInfo) {
-				symbolInfoArr.push(...declInfo);
+			if (decl.id.type === AST_NODE_TYPES.Identifier && decl.id.loc) {
+				declareVariable(scope, decl.id, uri, declarationKind);
+			}
+			if (decl.init) {
+				analyzeNode(decl.init, scope, uri, pending);
 			}
 		});
-	} else if (node.type === AST_NODE_TYPES.Identifier && typeof node.name === 'string' && node.loc) {
-		const name = node.name;
-		const loc = Location.create(
-			uri,
-			Range.create(
-				node.loc.start.line - 1,
-				node.loc.start.column,
-				node.loc.end.line - 1,
-				node.loc.end.column
-			)
-		);
-		const info = `Identifier used at line ${node.loc.start.line}`;
-		symbolInfoArr.push({ name, loc, info });
+	} else if (node.type === AST_NODE_TYPES.AssignmentExpression) {
+		// The right side is evaluated first: in `x = x + 1` the read refers to the previous value
+		analyzeNode(node.right, scope, uri, pending);
+		analyzeTarget(node.left as AnyNode, scope, uri, pending, node.operator === '=' ? 'write' : 'readwrite');
+	} else if (node.type === AST_NODE_TYPES.UpdateExpression) {
+		analyzeTarget(node.argument, scope, uri, pending, 'readwrite');
+	} else if (node.type === AST_NODE_TYPES.Identifier && node.loc) {
+		pending.push({ name: node.name, range: toRange(node), access: 'read', scope });
+	} else if (node.type === AST_NODE_TYPES.MemberExpression) {
+		// `obj.method` only references `obj`; `arr[ i ]` references both
+		analyzeNode(node.object as AnyNode, scope, uri, pending);
+		if (node.computed) {
+			analyzeNode(node.property as AnyNode, scope, uri, pending);
+		}
+	} else {
+		forEachChild(node, child => analyzeNode(child, scope, uri, pending));
+	}
+}
+
+function analyzeTarget(target: AnyNode, scope: Scope, uri: string, pending: PendingReference[], access: ReferenceAccess): void {
+	if (target.type === AST_NODE_TYPES.Identifier && target.loc) {
+		// Inside a function an assignment creates a local unless the name was declared there (params, `global`)
+		const existing = scope.bindings.get(symbolKey(target.name));
+		if (existing) {
+			existing.writes.push(toRange(target));
+			pending.push({ name: target.name, range: toRange(target), access, scope });
+		} else {
+			declare(scope, target, uri, 'variable', 'implicit');
+		}
+	} else if (target.type === AST_NODE_TYPES.MemberExpression && target.computed) {
+		// `arr[ i ] = x` writes into `arr`, creating it when it does not exist yet
+		analyzeTarget(target.object as AnyNode, scope, uri, pending, 'readwrite');
+		analyzeNode(target.property as AnyNode, scope, uri, pending);
+	} else {
+		analyzeNode(target, scope, uri, pending);
+	}
+}
+
+function declareVariable(scope: Scope, identifier: Identifier, uri: string, declarationKind: DeclarationKind): void {
+	// `global x` inside a function makes the function use the document-level binding
+	if (declarationKind === 'global' && scope.kind === 'function') {
+		let root = scope;
+		while (root.parent) {
+			root = root.parent;
+		}
+		const binding = root.bindings.get(symbolKey(identifier.name)) ?? declare(root, identifier, uri, 'variable', 'global');
+		scope.bindings.set(symbolKey(identifier.name), binding);
+		return;
+	}
+	declare(scope, identifier, uri, 'variable', declarationKind);
+}
+
+function containsPosition(range: Range, position: Position): boolean {
+	if (position.line < range.start.line || position.line > range.end.line) {
+		return false;
+	}
+	if (position.line === range.start.line && position.character < range.start.character) {
+		return false;
+	}
+	if (position.line === range.end.line && position.character > range.end.character) {
+		return false;
+	}
+	return true;
+}
+
+function findScopeAt(scope: Scope, position: Position): Scope {
+	for (const child of scope.children) {
+		if (containsPosition(child.range, position)) {
+			return findScopeAt(child, position);
+		}
+	}
+	return scope;
+}
+
+/**
+ * Resolves `name` at `position` in the document to the binding it refers to,
+ * honoring function scopes and `global`/`local` declarations.
+ */
+export function resolveSymbol(uri: string, name: string, position: Position): SymbolBinding | null {
+	const table = documentTables.get(uri);
+	if (!table) {
+		return null;
+	}
+
+	// The identifier under the cursor was already resolved during analysis
+	const reference = table.references.find(ref => symbolKey(ref.name) === symbolKey(name) && containsPosition(ref.range, position));
+	if (reference) {
+		return reference.binding ?? lookupIncluded(uri, name);
 	}
 
-	return symbolInfoArr;
+	return lookup(findScopeAt(table.root, position), name) ?? lookupIncluded(uri, name);
+}
+
+/**
+ * Finds every use of the binding `name` resolves to at `position`. Locals and parameters are
+ * searched in their function only; document-level names in the document and its included
+ * files, since an include shares one global namespace with the including file.
+ */
+export function findReferences(uri: string, name: string, position: Position, includeDeclaration: boolean): Location[] {
+	const binding = resolveSymbol(uri, name, position);
+	if (!binding) {
+		return [];
+	}
+
+	const locations: Location[] = [];
+	if (binding.scope.kind === 'function') {
+		if (includeDeclaration) {
+			locations.push(binding.loc);
+		}
+		const table = documentTables.get(binding.loc.uri);
+		for (const ref of table?.references ?? []) {
+			if (ref.binding === binding) {
+				locations.push(Location.create(binding.loc.uri, ref.range));
+			}
+		}
+		return locations;
+	}
+
+	for (const documentUri of [uri, ...getDocumentIncludes(uri)]) {
+		const table = documentTables.get(documentUri);
+		if (!table) {
+			continue;
+		}
+		const declaration = table.root.bindings.get(symbolKey(binding.name));
+		if (includeDeclaration && declaration) {
+			locations.push(declaration.loc);
+		}
+		for (const ref of table.references) {
+			if (symbolKey(ref.name) === symbolKey(binding.name) && (!ref.binding || ref.binding.scope.kind === 'document')) {
+				locations.push(Location.create(documentUri, ref.range));
+			}
+		}
+	}
+	return locations;
+}
+
+/**
+ * Returns every binding visible at `position`, innermost scope first.
+ */
+export function getVisibleSymbols(uri: string, position: Position): SymbolBinding[] {
+	const table = documentTables.get(uri);
+	if (!table) {
+		return [];
+	}
+
+	const seen = new Set<string>();
+	const result: SymbolBinding[] = [];
+	for (let scope: Scope | null = findScopeAt(table.root, position); scope; scope = scope.parent) {
+		for (const [name, binding] of scope.bindings) {
+			if (!seen.has(name)) {
+				seen.add(name);
+				result.push(binding);
+			}
+		}
+	}
+	for (const includedUri of getDocumentIncludes(uri)) {
+		for (const [name, binding] of documentTables.get(includedUri)?.root.bindings ?? []) {
+			if (!seen.has(name)) {
+				seen.add(name);
+				result.push(binding);
+			}
+		}
+	}
+	return result;
 }
 
 export function getWordAtPosition(line: string, char: number): string | null {
@@ -114,12 +445,6 @@ export function getWordAtPosition(line: string, char: number): string | null {
 	return null;
 }
 
-export function getSymbolInfo(name: string): string | null {
-	return symbolInfoMap.get(name) || null;
+export function getSymbolInfo(uri: string, name: string, position: Position): string | null {
+	return resolveSymbol(uri, name, position)?.info || null;
 }
-
-export interface SymbolInfo {
-	name: string;
-	loc: Location;
-	info: string;
-}
\ No newline at end of file
@@ -0,0 +1,242 @@
+import type { AnyNode, Program } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import { getBuiltinConstant, getBuiltinFunction, isReservedVariable } from './builtins';
+import { forEachChild } from './util';
+
+// `unknown` is used whenever the type cannot be decided, e.g. for function parameters
+export type InferredType = 'array' | 'number' | 'string' | 'boolean' | 'unknown';
+
+export interface TypeInference {
+	// Type of each expression node, including every identifier occurrence
+	expressions: Map<AnyNode, InferredType>;
+	// Type of each identifier occurrence, by its start offset in the text
+	identifiers: Map<number, InferredType>;
+	// Return type of each user function, by lower-case name
+	functions: Map<string, InferredType>;
+}
+
+// Types of the reserved variables that are not arrays
+const SCALAR_RESERVED: Record<string, InferredType> = {
+	title: 'string',
+	tooltip: 'string',
+	barcount: 'number',
+	graphxspace: 'number',
+	graphzorder: 'number',
+	numcolumns: 'number',
+	roundlotsize: 'number',
+	ticksize: 'number',
+	pointvalue: 'number',
+	margindeposit: 'number',
+};
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>=']);
+
+// Statements whose body may not run, so an assignment inside only adds a possible type
+const CONDITIONAL_STATEMENTS = new Set<string>([
+	AST_NODE_TYPES.IfStatement,
+	AST_NODE_TYPES.ForStatement,
+	AST_NODE_TYPES.WhileStatement,
+	AST_NODE_TYPES.DoWhileStatement,
+	AST_NODE_TYPES.SwitchStatement,
+]);
+
+/**
+ * Combines the types a value may have. A scalar mixed with an array becomes an array,
+ * the same way AmiBroker promotes it when the two meet in an expression.
+ */
+export function joinTypes(a: InferredType, b: InferredType): InferredType {
+	if (a === b) {
+		return a;
+	}
+	if (a === 'array' || b === 'array') {
+		return 'array';
+	}
+	const numeric = (type: InferredType) => type === 'number' || type === 'boolean';
+	return numeric(a) && numeric(b) ? 'number' : 'unknown';
+}
+
+function builtinIdentifierType(name: string): InferredType | null {
+	const lower = name.toLowerCase();
+	if (lower === 'true' || lower === 'false') {
+		return 'boolean';
+	}
+	if (getBuiltinConstant(name)) {
+		return 'number';
+	}
+	if (isReservedVariable(name)) {
+		return SCALAR_RESERVED[lower] ?? 'array';
+	}
+	return null;
+}
+
+function isExpression(node: AnyNode): boolean {
+	return node.type.endsWith('Expression') || node.type === AST_NODE_TYPES.Identifier || node.type === AST_NODE_TYPES.Literal;
+}
+
+interface InferContext {
+	result: TypeInference;
+	// Lower-case variable name to its type at the current point of the walk
+	env: Map<string, InferredType>;
+	// Types of the return statements seen so far
+	returns: InferredType[];
+}
+
+function record(ctx: InferContext, node: AnyNode, type: InferredType): InferredType {
+	ctx.result.expressions.set(node, type);
+	if (node.type === AST_NODE_TYPES.Identifier) {
+		ctx.result.identifiers.set(node.start, type);
+	}
+	return type;
+}
+
+function assignType(ctx: InferContext, target: AnyNode, type: InferredType, conditional: boolean): void {
+	if (target.type === AST_NODE_TYPES.Identifier) {
+		const key = target.name.toLowerCase();
+		const previous = ctx.env.get(key);
+		const next = conditional && previous ? joinTypes(previous, type) : type;
+		ctx.env.set(key, next);
+		record(ctx, target, next);
+	} else if (target.type === AST_NODE_TYPES.MemberExpression) {
+		// Writing one element turns the variable into an array
+		inferExpression(ctx, target.property as AnyNode);
+		assignType(ctx, target.object as AnyNode, 'array', false);
+		record(ctx, target, 'number');
+	} else {
+		inferExpression(ctx, target);
+	}
+}
+
+function inferExpression(ctx: InferContext, node: AnyNode, conditional = false): InferredType {
+	switch (node.type) {
+		case AST_NODE_TYPES.Literal:
+			return record(ctx, node, typeof node.value === 'string' ? 'string'
+				: typeof node.value === 'boolean' ? 'boolean'
+					: typeof node.value === 'number' ? 'number' : 'unknown');
+
+		case AST_NODE_TYPES.Identifier:
+			return record(ctx, node, ctx.env.get(node.name.toLowerCase()) ?? builtinIdentifierType(node.name) ?? 'unknown');
+
+		case AST_NODE_TYPES.AssignmentExpression: {
+			let type = inferExpression(ctx, node.right, conditional);
+			if (node.operator !== '=') {
+				type = joinTypes(inferExpression(ctx, node.left as AnyNode), type);
+			}
+			assignType(ctx, node.left as AnyNode, type, conditional);
+			return record(ctx, node, type);
+		}
+
+		case AST_NODE_TYPES.UpdateExpression: {
+			const type = inferExpression(ctx, node.argument);
+			return record(ctx, node, type);
+		}
+
+		case AST_NODE_TYPES.BinaryExpression:
+		case AST_NODE_TYPES.LogicalExpression: {
+			const left = inferExpression(ctx, node.left as AnyNode, conditional);
+			const right = inferExpression(ctx, node.right, conditional);
+			if (left === 'array' || right === 'array') {
+				return record(ctx, node, 'array');
+			}
+			if (left === 'unknown' || right === 'unknown') {
+				return record(ctx, node, 'unknown');
+			}
+			if (node.type === AST_NODE_TYPES.LogicalExpression || COMPARISON_OPERATORS.has(node.operator)) {
+				return record(ctx, node, 'boolean');
+			}
+			if (node.operator === '+' && (left === 'string' || right === 'string')) {
+				return record(ctx, node, 'string');
+			}
+			return record(ctx, node, 'number');
+		}
+
+		case AST_NODE_TYPES.UnaryExpression: {
+			const type = inferExpression(ctx, node.argument, conditional);
+			if (type === 'array' || type === 'unknown') {
+				return record(ctx, node, type);
+			}
+			return record(ctx, node, node.operator === '!' ? 'boolean' : 'number');
+		}
+
+		case AST_NODE_TYPES.MemberExpression:
+			inferExpression(ctx, node.object as AnyNode, conditional);
+			if (node.computed) {
+				inferExpression(ctx, node.property as AnyNode, conditional);
+			}
+			// Subscripting an array gives the value of one bar
+			return record(ctx, node, 'number');
+
+		case AST_NODE_TYPES.CallExpression: {
+			const args = node.arguments.map(arg => inferExpression(ctx, arg, conditional));
+			if (node.callee.type !== AST_NODE_TYPES.Identifier) {
+				return record(ctx, node, 'unknown');
+			}
+			const name = node.callee.name;
+			const userType = ctx.result.functions.get(name.toLowerCase());
+			if (userType) {
+				return record(ctx, node, userType);
+			}
+			const fn = getBuiltinFunction(name);
+			if (!fn) {
+				return record(ctx, node, 'unknown');
+			}
+			if (fn.name === 'IIf') {
+				// IIf() always works bar by bar; with scalar arguments it picks one of them
+				return record(ctx, node, args[0] === 'array' ? 'array' : joinTypes(args[1] ?? 'unknown', args[2] ?? 'unknown'));
+			}
+			const returns = fn.returns;
+			return record(ctx, node, returns === 'array' || returns === 'number' || returns === 'string' ? returns : 'unknown');
+		}
+
+		default:
+			forEachChild(node, child => inferExpression(ctx, child, conditional));
+			return record(ctx, node, 'unknown');
+	}
+}
+
+function inferStatement(ctx: InferContext, node: AnyNode, conditional: boolean): void {
+	if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+		return;
+	}
+	if (isExpression(node)) {
+		inferExpression(ctx, node, conditional);
+		return;
+	}
+	if (node.type === AST_NODE_TYPES.VariableDeclarator) {
+		if (node.init) {
+			assignType(ctx, node.id as AnyNode, inferExpression(ctx, node.init, conditional), conditional);
+		} else {
+			inferExpression(ctx, node.id as AnyNode);
+		}
+		return;
+	}
+	if (node.type === AST_NODE_TYPES.ReturnStatement) {
+		ctx.returns.push(node.argument ? inferExpression(ctx, node.argument, conditional) : 'unknown');
+		return;
+	}
+	const childConditional = conditional || CONDITIONAL_STATEMENTS.has(node.type);
+	forEachChild(node, child => inferStatement(ctx, child, childConditional));
+}
+
+/**
+ * Infers whether each expression of a formula is an array, a number, a string or a boolean,
+ * from literals, assignments and the return types of built-in and user functions.
+ * Variables get the type of their latest assignment, following the statements in order.
+ */
+export function inferTypes(ast: Program): TypeInference {
+	const result: TypeInference = { expressions: new Map(), identifiers: new Map(), functions: new Map() };
+	const declarations = ast.body.filter(node => node.type === AST_NODE_TYPES.FunctionDeclaration);
+
+	// A second pass picks up functions calling ones declared after them
+	for (let pass = 0; pass < 2; pass++) {
+		for (const fn of declarations) {
+			const env = new Map<string, InferredType>(fn.params.map(param => [(param as { name: string }).name.toLowerCase(), 'unknown']));
+			const ctx: InferContext = { result, env, returns: [] };
+			fn.params.forEach(param => inferExpression(ctx, param as AnyNode));
+			inferStatement(ctx, fn.body, false);
+			result.functions.set(fn.id.name.toLowerCase(), ctx.returns.length > 0 ? ctx.returns.reduce(joinTypes) : 'unknown');
+		}
+	}
+
+	inferStatement({ result, env: new Map(), returns: [] }, ast, false);
+	return result;
+}
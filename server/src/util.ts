@@ -1,6 +1,6 @@
-import { DocumentSymbol, SymbolKind } from 'vscode-languageserver';
+import { DocumentSymbol, SymbolKind, Range } from 'vscode-languageserver';
 import { AST_NODE_TYPES } from "@typescript-eslint/types";
-import type { AnyNode, VariableDeclarator, Options } from 'acorn';
+import type { AnyNode, Identifier, VariableDeclarator, Options, Program } from 'acorn';
 import { Parser } from 'acorn';
 import { AFLParser } from 'eslint-plugin-afl';
 import * as fs from 'fs';
@@ -15,7 +15,11 @@ function normalizeDocumentSymbol(c: DocumentSymbol | DocumentSymbol[] | null): D
 	return [];
 }
 
-export function nodeToDocumentSymbol(node: AnyNode): DocumentSymbol | DocumentSymbol[] | null {
+/**
+ * Converts a statement to outline symbols. `seen` holds the names already listed at the same
+ * level, so that only the first assignment of an AFL variable shows up.
+ */
+export function nodeToDocumentSymbol(node: AnyNode, seen = new Set<string>()): DocumentSymbol | DocumentSymbol[] | null {
 	if (!node || typeof node !== 'object') { return null; }
 	let name = '';
 	let kind: SymbolKind = SymbolKind.Variable;
@@ -28,17 +32,27 @@ export function nodeToDocumentSymbol(node: AnyNode): DocumentSymbol | DocumentSy
 		name = node.id.name;
 		kind = SymbolKind.Function;
 		if (node.body && typeof node.body === 'object' && Array.isArray(node.body.body)) {
+			const localSeen = new Set<string>();
 			children = node.body.body
-				.map((child: AnyNode) => nodeToDocumentSymbol(child))
+				.map((child: AnyNode) => nodeToDocumentSymbol(child, localSeen))
 				.flatMap(normalizeDocumentSymbol);
 		}
 	} else {
 		// Handle variable declarations 
 		if (node.type === AST_NODE_TYPES.VariableDeclaration && Array.isArray(node.declarations) && node.declarations.length > 0) {
-			return node.declarations.map((d: VariableDeclarator) => nodeToDocumentSymbol(d))
+			return node.declarations.map((d: VariableDeclarator) => nodeToDocumentSymbol(d, seen))
 				.flatMap(normalizeDocumentSymbol);
 		}
 
+		// Handle implicit declarations: `Fast = MA( C, 10 );`
+		if (node.type === AST_NODE_TYPES.ExpressionStatement
+			&& node.expression.type === AST_NODE_TYPES.AssignmentExpression
+			&& node.expression.left.type === AST_NODE_TYPES.Identifier) {
+			name = node.expression.left.name;
+			kind = SymbolKind.Variable;
+			loc = node.expression.left.loc;
+		}
+
 		// hanlde variable declarators
 		if (node.type === AST_NODE_TYPES.VariableDeclarator) {
 			// handle variable declarators
@@ -52,7 +66,8 @@ export function nodeToDocumentSymbol(node: AnyNode): DocumentSymbol | DocumentSy
 
 	// check location is available
 	loc = loc || node.loc;
-	if (!name || !loc) { return null; }
+	if (!name || !loc || seen.has(name)) { return null; }
+	seen.add(name);
 
 	return DocumentSymbol.create(
 		name,
@@ -70,21 +85,202 @@ export function nodeToDocumentSymbol(node: AnyNode): DocumentSymbol | DocumentSy
 	);
 }
 
-export function getAST(text: string, options?: Options): AnyNode | null {
-	try {
+// Acorn locations have one-based lines, LSP ranges zero-based ones
+export function nodeRange(node: AnyNode): Range {
+	const loc = node.loc!;
+	return Range.create(loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column);
+}
 
-		const aflParser = Parser.extend(AFLParser as never);
-		return aflParser.parse(text, {
-			ecmaVersion: 6,
-			sourceType: "module",
-			locations: true,
-			...options
-		});
+/**
+ * Returns the variable written by an assignment target: `Buy = ...` and `Buy[ i ] = ...`
+ * both assign the Buy array.
+ */
+export function getAssignedIdentifier(target: AnyNode): Identifier | null {
+	if (target.type === AST_NODE_TYPES.MemberExpression) {
+		return getAssignedIdentifier(target.object as AnyNode);
+	}
+	return target.type === AST_NODE_TYPES.Identifier ? target : null;
+}
 
-	} catch (error) {
-		console.error('Error parsing text:', error);
+export type SectionMarker =
+	| { kind: 'begin'; name: string; range: Range }
+	| { kind: 'end'; range: Range };
+
+/**
+ * Recognizes the `_SECTION_BEGIN( "name" );` and `_SECTION_END();` statements
+ * AmiBroker uses to group a formula into named sections.
+ */
+export function getSectionMarker(node: AnyNode): SectionMarker | null {
+	if (node.type !== AST_NODE_TYPES.ExpressionStatement || node.expression.type !== AST_NODE_TYPES.CallExpression || !node.loc) {
+		return null;
+	}
+	const callee = node.expression.callee;
+	if (callee.type !== AST_NODE_TYPES.Identifier) {
 		return null;
 	}
+
+	const range = Range.create(node.loc.start.line - 1, node.loc.start.column, node.loc.end.line - 1, node.loc.end.column);
+	const name = callee.name.toUpperCase();
+	if (name === '_SECTION_BEGIN') {
+		const arg = node.expression.arguments[0];
+		const label = arg && arg.type === AST_NODE_TYPES.Literal && typeof arg.value === 'string' ? arg.value : '(unnamed section)';
+		return { kind: 'begin', name: label, range };
+	}
+	if (name === '_SECTION_END') {
+		return { kind: 'end', range };
+	}
+	return null;
+}
+
+/**
+ * Calls `callback` for every direct child node of `node`.
+ */
+export function forEachChild(node: AnyNode, callback: (child: AnyNode) => void): void {
+	for (const [key, value] of Object.entries(node)) {
+		if (key === 'loc' || key === 'range') {
+			continue;
+		}
+		if (Array.isArray(value)) {
+			value.forEach(item => {
+				if (isNode(item)) {
+					callback(item);
+				}
+			});
+		} else if (isNode(value)) {
+			callback(value);
+		}
+	}
+}
+
+function isNode(value: unknown): value is AnyNode {
+	return !!value && typeof value === 'object' && typeof (value as AnyNode).type === 'string';
+}
+
+export interface ParseError {
+	message: string;
+	range: Range;
+}
+
+export interface ParseResult {
+	// Null only when the text could not be recovered at all
+	ast: Program | null;
+	errors: ParseError[];
+}
+
+// Upper bound on the number of broken lines skipped before giving up on a document
+const MAX_RECOVERY_ATTEMPTS = 25;
+
+interface AcornSyntaxError extends SyntaxError {
+	pos: number;
+	raisedAt?: number;
+	loc?: { line: number; column: number };
+}
+
+function isAcornSyntaxError(error: unknown): error is AcornSyntaxError {
+	return error instanceof SyntaxError && typeof (error as AcornSyntaxError).pos === 'number';
+}
+
+function offsetToPosition(text: string, offset: number): { line: number; character: number } {
+	const before = text.slice(0, offset);
+	const line = before.split(/\n/).length - 1;
+	return { line, character: offset - (before.lastIndexOf('\n') + 1) };
+}
+
+// Replaces every character of the line containing `offset` with spaces, keeping all offsets intact
+function blankLine(text: string, offset: number): { text: string; end: number } {
+	const start = text.lastIndexOf('\n', Math.max(offset - 1, 0)) + 1;
+	let end = text.indexOf('\n', offset);
+	if (end === -1) { end = text.length; }
+	return { text: text.slice(0, start) + text.slice(start, end).replace(/[^\r]/g, ' ') + text.slice(end), end };
+}
+
+// Counts braces left open at the end of the text, ignoring strings and comments
+function countOpenBraces(text: string): number {
+	const code = text
+		.replace(/\/\*[\s\S]*?(\*\/|$)/g, '')
+		.replace(/\/\/.*$/gm, '')
+		.replace(/"([^"\\\n]|\\.)*"?/g, '');
+	let depth = 0;
+	for (const ch of code) {
+		if (ch === '{') { depth++; }
+		if (ch === '}' && depth > 0) { depth--; }
+	}
+	return depth;
+}
+
+function parseStrict(text: string, options?: Partial<Options>): Program {
+	const aflParser = Parser.extend(AFLParser as never);
+	return aflParser.parse(text, {
+		ecmaVersion: 6,
+		sourceType: "module",
+		locations: true,
+		...options
+	}) as Program;
+}
+
+/**
+ * Parses AFL text, recovering from syntax errors so that the rest of the document
+ * still produces an AST. Each error is reported with its exact position; the line
+ * holding it is then skipped and parsing is retried.
+ */
+export function parseText(text: string, options?: Partial<Options>): ParseResult {
+	const errors: ParseError[] = [];
+	// Preprocessor directives such as #include are handled by the server, not the parser
+	let current = text.replace(/^[ \t]*#.*$/gm, (match) => ' '.repeat(match.length));
+	let recoveredUntil = -1;
+	let closedBraces = false;
+
+	for (let attempt = 0; attempt <= MAX_RECOVERY_ATTEMPTS; attempt++) {
+		try {
+			return { ast: parseStrict(current, options), errors };
+		} catch (error) {
+			if (!isAcornSyntaxError(error)) {
+				console.error('Error parsing text:', error);
+				return { ast: null, errors };
+			}
+
+			const atEnd = error.pos >= text.length;
+			const openBraces = atEnd && !closedBraces ? countOpenBraces(current) : 0;
+			// Errors caused by our own recovery edits would only repeat the first one
+			if (error.pos > recoveredUntil && !(atEnd && errors.length > 0 && openBraces === 0)) {
+				const endOffset = error.raisedAt && error.raisedAt > error.pos ? error.raisedAt : error.pos + 1;
+				errors.push({
+					message: error.message.replace(/\s*\(\d+:\d+\)$/, ''),
+					range: Range.create(
+						offsetToPosition(text, Math.min(error.pos, text.length)),
+						offsetToPosition(text, Math.min(endOffset, text.length))
+					),
+				});
+			}
+
+			if (atEnd && !closedBraces) {
+				// Unexpected end of input: close the blocks still open
+				closedBraces = true;
+				current = current + '\n' + '}'.repeat(openBraces);
+				continue;
+			}
+
+			const offset = atEnd ? current.trimEnd().length - 1 : error.pos;
+			if (offset < 0) {
+				return { ast: null, errors };
+			}
+			const blanked = blankLine(current, Math.min(offset, text.length));
+			if (blanked.text === current) {
+				return { ast: null, errors };
+			}
+			current = blanked.text;
+			recoveredUntil = Math.max(recoveredUntil, blanked.end);
+		}
+	}
+	return { ast: null, errors };
+}
+
+export function getAST(text: string, options?: Options): AnyNode | null {
+	const { ast, errors } = parseText(text, options);
+	if (!ast && errors.length > 0) {
+		console.error('Error parsing text:', errors[0].message);
+	}
+	return ast;
 }
 
 export function getASTFromFile(filePath: string): AnyNode | null {
@@ -95,4 +291,130 @@ export function getASTFromFile(filePath: string): AnyNode | null {
 		console.error('Error reading file:', error);
 		return null;
 	}
-}
\ No newline at end of file
+}
+
+export interface CallContext {
+	// Name of the function whose argument list contains the offset
+	name: string;
+	// Zero-based index of the argument the offset is in
+	activeParameter: number;
+	// Offset of the opening '(' of the call
+	openParenOffset: number;
+}
+
+// Code characters of one line, with strings and comments left out
+interface LineCode {
+	// Offsets of the characters outside strings and comments, in text order
+	code: number[];
+	// A '*/' on the line closes a comment opened on an earlier line
+	closesComment: boolean;
+	// The line ends inside a block comment opened on it
+	endsInBlockComment: boolean;
+	// The line ends in a '//' comment
+	endsInLineComment: boolean;
+}
+
+function scanLine(text: string, start: number, end: number): LineCode {
+	const line: LineCode = { code: [], closesComment: false, endsInBlockComment: false, endsInLineComment: false };
+	let i = start;
+	while (i < end) {
+		const ch = text[i];
+		if (ch === '/' && text[i + 1] === '/') {
+			line.endsInLineComment = true;
+			break;
+		}
+		if (ch === '/' && text[i + 1] === '*') {
+			const close = text.indexOf('*/', i + 2);
+			if (close === -1 || close + 2 > end) {
+				line.endsInBlockComment = true;
+				break;
+			}
+			i = close + 2;
+			continue;
+		}
+		if (ch === '*' && text[i + 1] === '/') {
+			// Everything before it was inside the comment
+			line.code = [];
+			line.closesComment = true;
+			i += 2;
+			continue;
+		}
+		if (ch === '"') {
+			let j = i + 1;
+			while (j < end && text[j] !== '"') {
+				j += text[j] === '\\' ? 2 : 1;
+			}
+			// An unterminated string still counts as an argument being typed
+			i = j + 1;
+			continue;
+		}
+		line.code.push(i);
+		i++;
+	}
+	return line;
+}
+
+// Name of the identifier right before an opening '(', if any
+function readCalleeName(text: string, paren: number): string | null {
+	let end = paren;
+	while (end > 0 && /\s/.test(text[end - 1])) {
+		end--;
+	}
+	let start = end;
+	while (start > 0 && /[A-Za-z0-9_]/.test(text[start - 1])) {
+		start--;
+	}
+	while (start < end && /[0-9]/.test(text[start])) {
+		start++;
+	}
+	return start < end ? text.slice(start, end) : null;
+}
+
+/**
+ * Finds the innermost function call whose argument list contains the given offset.
+ * Scans backward from the offset line by line, skipping strings and comments so that
+ * '(' and ',' inside them are ignored, and stops at the '(' left open.
+ */
+export function getCallContext(text: string, offset: number): CallContext | null {
+	let depth = 0;
+	let activeParameter = 0;
+	// The end of the line being scanned is inside a comment closed on a later line
+	let inComment = false;
+	let end = offset;
+	for (let first = true; ; first = false) {
+		const start = end === 0 ? 0 : text.lastIndexOf('\n', end - 1) + 1;
+		let codeEnd = end;
+		if (inComment) {
+			const open = text.lastIndexOf('/*', end - 2);
+			codeEnd = open < start ? start : open;
+			inComment = open < start;
+		}
+		const line = scanLine(text, start, codeEnd);
+		if (line.endsInBlockComment || (first && line.endsInLineComment)) {
+			return null;
+		}
+		for (let k = line.code.length - 1; k >= 0; k--) {
+			const i = line.code[k];
+			const ch = text[i];
+			if (ch === ')') {
+				depth++;
+			} else if (ch === '(') {
+				if (depth === 0) {
+					const name = readCalleeName(text, i);
+					return name ? { name, activeParameter, openParenOffset: i } : null;
+				}
+				depth--;
+			} else if (ch === ',' && depth === 0) {
+				activeParameter++;
+			} else if (ch === ';' || ch === '{' || ch === '}') {
+				// A statement boundary closes any call left open by a typo
+				return null;
+			}
+		}
+		inComment = inComment || line.closesComment;
+		if (start === 0) {
+			return null;
+		}
+		end = start - 1;
+	}
+}
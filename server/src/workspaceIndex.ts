@@ -0,0 +1,174 @@
+import { SymbolInformation, SymbolKind } from 'vscode-languageserver';
+import type { AnyNode, Program } from 'acorn';
+import { AST_NODE_TYPES } from "@typescript-eslint/types";
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAssignedIdentifier, getSectionMarker, nodeRange, parseText } from './util';
+import { pathToUri, uriToPath } from './includes';
+
+// Symbols defined at the top level of each indexed file, by file path
+const workspaceSymbols = new Map<string, SymbolInformation[]>();
+
+// Folders that never hold formulas and can be large
+const SKIPPED_FOLDERS = new Set(['node_modules', 'out', 'dist']);
+
+// Upper bound on the results of one query, so that an empty query stays cheap
+const MAX_RESULTS = 500;
+
+/**
+ * Lists the functions and formula-level variables of a file. Only the first assignment of a
+ * variable is listed, the same way the outline does.
+ */
+function collectSymbols(uri: string, ast: Program | null): SymbolInformation[] {
+	if (!ast) {
+		return [];
+	}
+
+	const symbols: SymbolInformation[] = [];
+	const seen = new Set<string>();
+	let section: string | undefined;
+	const add = (name: string, kind: SymbolKind, node: AnyNode) => {
+		const key = name.toLowerCase();
+		if (kind === SymbolKind.Variable && seen.has(key)) {
+			return;
+		}
+		seen.add(key);
+		symbols.push(SymbolInformation.create(name, kind, nodeRange(node), uri, section));
+	};
+
+	for (const node of ast.body) {
+		const marker = getSectionMarker(node);
+		if (marker) {
+			section = marker.kind === 'begin' ? marker.name : undefined;
+		} else if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+			add(node.id.name, SymbolKind.Function, node.id);
+		} else if (node.type === AST_NODE_TYPES.VariableDeclaration) {
+			for (const decl of node.declarations) {
+				if (decl.id.type === AST_NODE_TYPES.Identifier) {
+					add(decl.id.name, SymbolKind.Variable, decl.id);
+				}
+			}
+		} else if (node.type === AST_NODE_TYPES.ExpressionStatement && node.expression.type === AST_NODE_TYPES.AssignmentExpression) {
+			const target = getAssignedIdentifier(node.expression.left as AnyNode);
+			if (target) {
+				add(target.name, SymbolKind.Variable, target);
+			}
+		}
+	}
+	return symbols;
+}
+
+// The editor and Node encode file URIs differently (`c%3A` vs `C:`), so entries are keyed by path
+function indexKey(uri: string): string {
+	return uriToPath(uri) ?? uri;
+}
+
+// `ast` is passed in by callers that already parsed the text
+export function indexDocument(uri: string, text: string, ast: Program | null = parseText(text).ast): void {
+	workspaceSymbols.set(indexKey(uri), collectSymbols(uri, ast));
+}
+
+export function removeFromIndex(uri: string): void {
+	workspaceSymbols.delete(indexKey(uri));
+}
+
+// URIs of every indexed file
+export function getIndexedFiles(): string[] {
+	return [...workspaceSymbols.keys()].map(key => (path.isAbsolute(key) ? pathToUri(key) : key));
+}
+
+// Drops every file under a folder, used when the folder leaves the workspace
+export function removeFolderFromIndex(folderUri: string): void {
+	const folder = uriToPath(folderUri);
+	if (!folder) {
+		return;
+	}
+	for (const file of workspaceSymbols.keys()) {
+		const relative = path.relative(folder, file);
+		if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+			workspaceSymbols.delete(file);
+		}
+	}
+}
+
+// Adds the .afl files under `folder` to `files`, skipping hidden and build folders
+export async function findAflFiles(folder: string, files: string[]): Promise<void> {
+	let entries: fs.Dirent[];
+	try {
+		entries = await fs.promises.readdir(folder, { withFileTypes: true });
+	} catch {
+		return;
+	}
+	for (const entry of entries) {
+		const fullPath = path.join(folder, entry.name);
+		if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_FOLDERS.has(entry.name)) {
+			await findAflFiles(fullPath, files);
+		} else if (entry.isFile() && path.extname(entry.name).toLowerCase() === '.afl') {
+			files.push(fullPath);
+		}
+	}
+}
+
+// Called after each indexed file with the number of files indexed so far and in total
+export type IndexProgress = (indexed: number, total: number) => void;
+
+// Lets pending requests run between two files, since parsing a large formula takes a while
+function yieldToEventLoop(): Promise<void> {
+	return new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * Indexes every .afl file under a workspace folder. `readText` returns the editor buffer of
+ * open documents, which are indexed from their current text instead of the file on disk.
+ * Returns the number of indexed files.
+ */
+export async function indexFolder(folderUri: string, readText: (uri: string) => string | null, onProgress?: IndexProgress): Promise<number> {
+	const folder = uriToPath(folderUri);
+	if (!folder) {
+		return 0;
+	}
+	const files: string[] = [];
+	await findAflFiles(folder, files);
+	for (const [index, file] of files.entries()) {
+		const uri = pathToUri(file);
+		const text = readText(uri);
+		if (text !== null) {
+			indexDocument(uri, text);
+		}
+		onProgress?.(index + 1, files.length);
+		await yieldToEventLoop();
+	}
+	return files.length;
+}
+
+// Every character of the query must appear in the name, in order, ignoring case: "cmac" matches "CustomMACD"
+function matchesQuery(name: string, query: string): boolean {
+	let position = 0;
+	const lowerName = name.toLowerCase();
+	for (const ch of query.toLowerCase()) {
+		position = lowerName.indexOf(ch, position);
+		if (position === -1) {
+			return false;
+		}
+		position++;
+	}
+	return true;
+}
+
+/**
+ * Answers a `workspace/symbol` query. Functions come before variables, and names starting
+ * with the query before the other matches.
+ */
+export function searchWorkspaceSymbols(query: string): SymbolInformation[] {
+	const lowerQuery = query.toLowerCase();
+	const matches: SymbolInformation[] = [];
+	for (const symbols of workspaceSymbols.values()) {
+		matches.push(...symbols.filter(symbol => matchesQuery(symbol.name, query)));
+	}
+
+	const rank = (symbol: SymbolInformation) => (symbol.kind === SymbolKind.Function ? 0 : 2)
+		+ (symbol.name.toLowerCase().startsWith(lowerQuery) ? 0 : 1);
+	return matches
+		.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name))
+		.slice(0, MAX_RESULTS);
+}